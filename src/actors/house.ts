@@ -1,8 +1,10 @@
 import { Counter, NumberCounter } from "@gouvernathor/python/collections";
 import { ReadonlyCollection } from "@gouvernathor/python/collections/abc";
-import { Election } from "../election";
+import { Election, StandardElection } from "../election";
 import { Vote } from "./vote";
-import { DisagreementFunction } from "../election/voting";
+import { DisagreementFunction, Voting } from "../election/voting";
+import { Simple } from "../election/tally";
+import { AttributionFailure, Proportional } from "../election/attribution";
 
 /**
  * An electoral district relating to a House.
@@ -41,6 +43,67 @@ export class District<Voter, Party> {
     }
 }
 
+/**
+ * A threshold of votes applying to the whole House,
+ * such as the german 5% threshold or the turkish 7% threshold.
+ *
+ * The tallies of all the districts are summed, and only the parties reaching the threshold
+ * of the national votes, or exempted from it, can win seats in any district.
+ */
+export interface NationalThreshold<Party> {
+    /**
+     * The share of the national votes a party needs to reach, between 0 and 1.
+     */
+    readonly threshold: number;
+    /**
+     * The parties which are coalitions of several parties,
+     * and need to reach the coalitionThreshold instead,
+     * such as in Poland with 5% for parties and 8% for coalitions.
+     */
+    readonly coalitions?: ReadonlySet<Party>;
+    /**
+     * The share of the national votes a coalition needs to reach.
+     * Defaults to the threshold.
+     */
+    readonly coalitionThreshold?: number;
+    /**
+     * The number of districts in which a party needs to win seats
+     * (as if there were no threshold) to be exempted from the threshold.
+     * 0, the default, disables this exemption.
+     */
+    readonly districtExemption?: number;
+    /**
+     * Parties always exempted from the threshold,
+     * such as the parties of national minorities in Germany or Poland.
+     */
+    readonly exemptParties?: ReadonlySet<Party>;
+}
+
+/**
+ * Returns the parties reaching the national threshold, or exempted from it.
+ *
+ * @param districtWins Computes the number of districts in which each party wins seats without the threshold,
+ * only called if the district exemption is enabled.
+ */
+function nationallyEligibleParties<Party>(
+    {
+        threshold,
+        coalitions = new Set(),
+        coalitionThreshold = threshold,
+        districtExemption = 0,
+        exemptParties = new Set(),
+    }: NationalThreshold<Party>,
+    nationalVotes: Simple<Party>,
+    districtWins: () => Simple<Party>,
+): Set<Party> {
+    const wins = districtExemption > 0 ? districtWins() : NumberCounter.fromEntries<Party>();
+    const nationalTotal = nationalVotes.total;
+    return new Set([...nationalVotes.keys()].filter(party =>
+        exemptParties.has(party)
+        || nationalVotes.get(party) >= (coalitions.has(party) ? coalitionThreshold : threshold) * nationalTotal
+        || (districtExemption > 0 && wins.get(party) >= districtExemption)));
+}
+
 /**
  * A whole House of Parliament.
  * Some constraints:
@@ -54,9 +117,21 @@ export class House<Voter, Party> {
     districts: Map<District<Voter, Party>, Counter<Party, number>>;
     name?: string;
     majority?: number;
+    nationalThreshold?: NationalThreshold<Party>;
+    /**
+     * @param nationalThreshold A threshold applying to the national votes.
+     * If passed, the election method of each district must be a StandardElection
+     * whose tally is Simple, such as one returned by standardElection :
+     * the tallies of the districts are summed, and then only the votes for the eligible parties
+     * are passed to the attribution method of each district.
+     */
     constructor(
         districts: Iterable<District<Voter, Party>> | Map<District<Voter, Party>, Counter<Party, number>>,
-        { name, majority = .5 }: { name?: string, majority?: number } = {},
+        { name, majority = .5, nationalThreshold }: {
+            name?: string,
+            majority?: number,
+            nationalThreshold?: NationalThreshold<Party>,
+        } = {},
     ) {
         if (!(districts instanceof Map)) {
             districts = new Map([...districts].map(d => [d, NumberCounter.fromEntries<Party>()]));
@@ -65,6 +140,8 @@ export class House<Voter, Party> {
         if (name !== undefined)
             this.name = name;
         this.majority = majority;
+        if (nationalThreshold !== undefined)
+            this.nationalThreshold = nationalThreshold;
     }
 
     /**
@@ -76,7 +153,7 @@ export class House<Voter, Party> {
     get members(): Counter<Party, number> {
         const coun = NumberCounter.fromEntries<Party>();
         for (const dmembers of this.districts.values()) {
-            coun.update(dmembers);
+            coun.updateBy(dmembers);
         }
         return coun;
     }
@@ -98,13 +175,53 @@ export class House<Voter, Party> {
 
     /**
      * Triggers an election in each electoral district, returns the members result.
+     *
+     * If a national threshold is set and no party is eligible,
+     * an AttributionFailure error is thrown.
      */
     election(candidates: ReadonlyCollection<Party>): Counter<Party, number> {
-        const members = NumberCounter.fromEntries<Party>();
+        if (this.nationalThreshold === undefined) {
+            const members = NumberCounter.fromEntries<Party>();
+            for (const district of this.districts.keys()) {
+                const elected = district.election(candidates);
+                this.districts.set(district, elected);
+                members.updateBy(elected);
+            }
+            return members;
+        }
+
+        const elections = new Map<District<Voter, Party>, StandardElection<Voter, Party, Simple<Party>>>();
+        const tallies = new Map<District<Voter, Party>, Simple<Party>>();
+        const nationalVotes = NumberCounter.fromEntries<Party>();
         for (const district of this.districts.keys()) {
-            const elected = district.election(candidates);
+            const electionMethod = district.electionMethod as Partial<StandardElection<Voter, Party, Simple<Party>>>;
+            if (electionMethod.votingMethod === undefined || electionMethod.attributionMethod === undefined) {
+                throw new Error("National thresholds require the districts to use standard elections");
+            }
+            elections.set(district, electionMethod as StandardElection<Voter, Party, Simple<Party>>);
+            const tally = electionMethod.votingMethod(district.voters, candidates);
+            tallies.set(district, tally);
+            nationalVotes.updateBy(tally);
+        }
+
+        const eligible = nationallyEligibleParties(this.nationalThreshold, nationalVotes, () => {
+            // the number of districts in which each party would win seats without the threshold
+            const districtWins = NumberCounter.fromEntries<Party>();
+            for (const [district, tally] of tallies) {
+                districtWins.add(elections.get(district)!.attributionMethod(tally).pos.keys());
+            }
+            return districtWins;
+        });
+        if (eligible.size === 0) {
+            throw new AttributionFailure("No party reached the national threshold");
+        }
+
+        const members = NumberCounter.fromEntries<Party>();
+        for (const [district, tally] of tallies) {
+            const votes = NumberCounter.fromEntries([...tally.entries()].filter(([party]) => eligible.has(party)));
+            const elected = elections.get(district)!.attributionMethod(votes);
             this.districts.set(district, elected);
-            members.update(elected);
+            members.updateBy(elected);
         }
         return members;
     }
@@ -113,6 +230,8 @@ export class House<Voter, Party> {
      * Returns the state of the vote on something having an opinion.
      * The object of the vote may be a motion or bill, but also a person to elect
      * or to confirm.
+     *
+     * The members having no opinion on it, with a disagreement of 0, vote blank.
      */
     vote<T>(
         target: T,
@@ -120,14 +239,201 @@ export class House<Voter, Party> {
     ): Vote {
         let votesFor = 0;
         let votesAgainst = 0;
+        let votesBlank = 0;
         for (const [party, nSeats] of this.members) {
             const disag = disagree(party, target);
             if (disag > 0) {
                 votesFor += nSeats;
             } else if (disag < 0) {
                 votesAgainst += nSeats;
+            } else {
+                votesBlank += nSeats;
+            }
+        }
+        return new Vote(votesFor, votesAgainst, votesBlank);
+    }
+}
+
+/**
+ * A House elected following a mixed-member proportional system,
+ * such as the German Bundestag or the Scottish Parliament.
+ *
+ * The districts are the constituencies, whose seats are attributed by their own election methods.
+ * In addition, all the voters of the constituencies vote for party lists,
+ * and the total number of seats of each party is made proportional to that list vote,
+ * the list seats compensating for the constituency seats.
+ *
+ * When a party wins more constituency seats than its proportional share, it keeps them as overhang seats.
+ * If leveling is enabled, the size of the House is then increased,
+ * giving leveling seats to the other parties, until each party's proportional share
+ * covers its constituency seats, or until the maximum number of seats is reached.
+ *
+ * Only the parties reaching the threshold of list votes, or winning at least
+ * the given number of constituencies (the German "Grundmandat" clause), take part in the list apportionment.
+ * The constituency seats won by other parties, or by independent candidates,
+ * are deducted from the number of seats apportioned among the lists.
+ */
+export class MixedMemberHouse<Voter, Party> extends House<Voter, Party> {
+    listVoting: Voting<Voter, Party, Simple<Party>>;
+    listAttribution: (p: { nSeats: number }) => Proportional<Party>;
+    nListSeats: number;
+    threshold: number;
+    constituencyExemption: number;
+    leveling: boolean;
+    maxNSeats: number;
+    /**
+     * The list seats won by each party at the last election.
+     */
+    listSeats: Counter<Party, number> = NumberCounter.fromEntries();
+
+    /**
+     * @param listVoting The voting method for the party list vote.
+     * @param listAttribution A function creating the proportional attribution method for the list vote,
+     * given a number of seats to allocate, such as webster or jefferson.
+     * @param nListSeats The number of list seats, before any overhang or leveling seats.
+     * @param threshold The share of the list votes a party needs to take part in the list apportionment.
+     * @param constituencyExemption The number of constituencies a party needs to win
+     * to take part in the list apportionment regardless of the threshold.
+     * 0, the default, disables this exemption.
+     * @param leveling Whether to add leveling seats in case of overhang seats.
+     * @param maxNSeats The maximum number of seats in the House when adding leveling seats.
+     */
+    constructor(
+        districts: Iterable<District<Voter, Party>> | Map<District<Voter, Party>, Counter<Party, number>>,
+        {
+            listVoting,
+            listAttribution,
+            nListSeats,
+            threshold = 0,
+            constituencyExemption = 0,
+            leveling = true,
+            maxNSeats = Infinity,
+            ...rest
+        }: {
+            listVoting: Voting<Voter, Party, Simple<Party>>,
+            listAttribution: (p: { nSeats: number }) => Proportional<Party>,
+            nListSeats: number,
+            threshold?: number,
+            constituencyExemption?: number,
+            leveling?: boolean,
+            maxNSeats?: number,
+            name?: string,
+            majority?: number,
+        },
+    ) {
+        super(districts, rest);
+        this.listVoting = listVoting;
+        this.listAttribution = listAttribution;
+        this.nListSeats = nListSeats;
+        this.threshold = threshold;
+        this.constituencyExemption = constituencyExemption;
+        this.leveling = leveling;
+        this.maxNSeats = maxNSeats;
+    }
+
+    /**
+     * Returns a Counter linking each party to the number of constituency seats it holds.
+     */
+    get constituencySeats(): Counter<Party, number> {
+        return super.members;
+    }
+
+    override get members(): Counter<Party, number> {
+        const coun = this.constituencySeats;
+        coun.updateBy(this.listSeats);
+        return coun;
+    }
+
+    /**
+     * If all constituencies support providing a theoretical number of seats,
+     * returns the number of seats in the House before any overhang or leveling seats.
+     * Otherwise, returns undefined.
+     */
+    override get nSeats(): number | undefined {
+        const nConstituencySeats = super.nSeats;
+        if (nConstituencySeats === undefined) {
+            return undefined;
+        }
+        return nConstituencySeats + this.nListSeats;
+    }
+
+    /**
+     * Triggers an election in each constituency and the list vote,
+     * returns the members result.
+     * The constituency and list seats are available separately
+     * through the constituencySeats and listSeats properties.
+     *
+     * Throws an AttributionFailure error if no party takes part in the list apportionment.
+     */
+    override election(candidates: ReadonlyCollection<Party>): Counter<Party, number> {
+        const constituencySeats = NumberCounter.fromEntries<Party>();
+        const constituencyWins = NumberCounter.fromEntries<Party>();
+        for (const district of this.districts.keys()) {
+            const elected = district.election(candidates);
+            this.districts.set(district, elected);
+            constituencySeats.updateBy(elected);
+            constituencyWins.add(elected.pos.keys());
+        }
+
+        const listVotes = this.listVoting(
+            [...this.districts.keys()].flatMap(district => district.voters), candidates);
+        const votesThreshold = this.threshold * listVotes.total;
+        const eligibleVotes = NumberCounter.fromEntries([...listVotes.entries()].filter(([party, votes]) =>
+            votes > 0 && (votes >= votesThreshold
+                || (this.constituencyExemption > 0 && constituencyWins.get(party) >= this.constituencyExemption))));
+
+        if (eligibleVotes.size === 0) {
+            throw new AttributionFailure("No party reached the threshold");
+        }
+
+        // the constituency seats won outside of the eligible parties
+        let nOtherSeats = 0;
+        for (const [party, seats] of constituencySeats) {
+            if (!eligibleVotes.has(party)) {
+                nOtherSeats += seats;
+            }
+        }
+
+        const attribute = (nSeats: number) =>
+            this.listAttribution({ nSeats: nSeats - nOtherSeats })(eligibleVotes);
+        const hasOverhang = (proportionalSeats: Counter<Party, number>) =>
+            [...eligibleVotes.keys()].some(party =>
+                constituencySeats.get(party) > proportionalSeats.get(party));
+
+        let nSeats = constituencySeats.total + this.nListSeats;
+        let proportionalSeats = attribute(nSeats);
+        if (this.leveling && hasOverhang(proportionalSeats)) {
+            // look for a size without overhang by doubling the number of added seats,
+            // then for the smallest such size by bisection,
+            // assuming the list attribution is house-monotone, as divisor methods are
+            let withOverhang = nSeats;
+            let leveled = false;
+            for (let step = 1; !leveled && nSeats < this.maxNSeats; step *= 2) {
+                withOverhang = nSeats;
+                nSeats = Math.min(nSeats + step, this.maxNSeats);
+                proportionalSeats = attribute(nSeats);
+                leveled = !hasOverhang(proportionalSeats);
+            }
+            while (leveled && nSeats - withOverhang > 1) {
+                const middle = Math.floor((withOverhang + nSeats) / 2);
+                const middleSeats = attribute(middle);
+                if (hasOverhang(middleSeats)) {
+                    withOverhang = middle;
+                } else {
+                    nSeats = middle;
+                    proportionalSeats = middleSeats;
+                }
+            }
+        }
+
+        const listSeats = NumberCounter.fromEntries<Party>();
+        for (const party of eligibleVotes.keys()) {
+            const partyListSeats = proportionalSeats.get(party) - constituencySeats.get(party);
+            if (partyListSeats > 0) {
+                listSeats.set(party, partyListSeats);
             }
         }
-        return new Vote(votesFor, votesAgainst);
+        this.listSeats = listSeats;
+        return this.members;
     }
 }
@@ -1,14 +1,18 @@
 /**
  * The results of a binary vote.
- * The blank votes are not counted. To calculate a threshold on the whole
+ * The blank votes and the abstentions are recorded, but not counted in the votes cast nor in the ratio.
+ * To calculate a threshold on the whole
  * number of members, use vote.votesFor / house.nSeats.
  * To calculate the threshold on the number of duly elected members, use
  * vote.votesFor / sum(house.members.values()).
+ * To calculate the threshold on the members present, use vote.votesFor / vote.ballotsCast.
  */
 export class Vote {
     constructor(
         public readonly votesFor: number,
         public readonly votesAgainst: number,
+        public readonly votesBlank = 0,
+        public readonly abstentions = 0,
     ) { }
 
     /**
@@ -16,13 +20,20 @@ export class Vote {
      * Simulates a vote on the opposite motion.
      */
     get neg(): Vote {
-        return new Vote(this.votesAgainst, this.votesFor);
+        return new Vote(this.votesAgainst, this.votesFor, this.votesBlank, this.abstentions);
     }
 
     get votesCast(): number {
         return this.votesFor + this.votesAgainst;
     }
 
+    /**
+     * The number of ballots cast, including the blank ones.
+     */
+    get ballotsCast(): number {
+        return this.votesCast + this.votesBlank;
+    }
+
     /**
      * Returns the ratio of votes for over the total number of votes cast.
      * If there are no votes cast, returns an Infinity.
@@ -1,8 +1,11 @@
+import { sum } from "@gouvernathor/python";
 import { Counter, NumberCounter } from "@gouvernathor/python/collections";
 import { type ReadonlyCollection } from "@gouvernathor/python/collections/abc";
 import { createRandomObj, type RandomObjParam } from "./utils";
-import { type Voting } from "./election/voting";
-import { type Attribution } from "./election/attribution";
+import { type Voting, type VoterWeights, voterWeightFunction } from "./election/voting";
+import { type Attribution, AttributionFailure, type TieBreak } from "./election/attribution";
+import { defaultTieBreak, highestN, simpleContext } from "./election/attribution/tieBreak";
+import { type Simple, type WithTurnout } from "./election/tally";
 
 /**
  * A function to go from a set of opinionated voters
@@ -16,6 +19,16 @@ export interface Election<Voter, Party> {
 }
 
 
+/**
+ * An election combining a voting method and an attribution method,
+ * which it makes available so that the tally can be used separately,
+ * for instance to apply a national threshold across the districts of a House.
+ */
+export interface StandardElection<Voter, Party, Tally> extends Election<Voter, Party> {
+    readonly votingMethod: Voting<Voter, Party, Tally>;
+    readonly attributionMethod: Attribution<Party, Tally>;
+}
+
 /**
  * Implements the most basic elections : combining a voting method and an attribution method.
  */
@@ -24,10 +37,134 @@ export function standardElection<Voter, Party, Tally>(
         votingMethod: Voting<Voter, Party, Tally>,
         attributionMethod: Attribution<Party, Tally>,
     }
-): Election<Voter, Party> {
-    return (pool: ReadonlyCollection<Voter>, candidates: ReadonlyCollection<Party>): Counter<Party, number> => {
+): StandardElection<Voter, Party, Tally> {
+    const election = (pool: ReadonlyCollection<Voter>, candidates: ReadonlyCollection<Party>): Counter<Party, number> => {
         return attributionMethod(votingMethod(pool, candidates));
     };
+    election.votingMethod = votingMethod;
+    election.attributionMethod = attributionMethod;
+    return election;
+}
+
+/**
+ * The details of a two-round election.
+ */
+export interface RunoffResult<Party> {
+    readonly firstRound: Simple<Party>;
+    /**
+     * Undefined if the election was decided in the first round.
+     */
+    readonly secondRound?: Simple<Party>;
+    /**
+     * The candidates qualified for the second round, after withdrawals.
+     * Undefined if the election was decided in the first round.
+     */
+    readonly qualified?: readonly Party[];
+    readonly seats: Counter<Party, number>;
+}
+
+/**
+ * An election which may take two rounds,
+ * and which makes the tallies of each round available.
+ */
+export interface RunoffElection<Voter, Party> extends Election<Voter, Party> {
+    /**
+     * Runs the election like calling the function does,
+     * but returns the details of the rounds along with the seats.
+     */
+    detailed(voters: ReadonlyCollection<Voter>, candidates: ReadonlyCollection<Party>): RunoffResult<Party>;
+}
+
+/**
+ * Implements a two-round election, in which the voters vote a second time,
+ * among the candidates who qualified in the first round,
+ * unless a candidate wins an outright majority in the first round.
+ * The attribution method is applied to the tally of the decisive round.
+ *
+ * By default, this is a top-two runoff.
+ * Passing a qualifyingShare implements french-style elections, in which the candidates
+ * reaching a share of the registered voters qualify for the second round.
+ *
+ * The registered voters are those recorded in the turnout of the first-round tally,
+ * if the voting method records it, as the withTurnout voting methods do.
+ * Otherwise, they are all the voters passed to the election, each counting as their weight.
+ *
+ * @param majority The share of the votes cast a candidate needs to strictly exceed to win in the first round.
+ * @param majorityOfRegistered The share of the registered voters a candidate also needs to reach
+ * to win in the first round, 25% in France.
+ * @param qualifyingShare The share of the registered voters needed to qualify for the second round,
+ * 12.5% in France. If not passed, only the nQualified best candidates qualify.
+ * @param nQualified The number of best candidates qualifying for the second round
+ * if no qualifyingShare is passed, or if fewer candidates than that reach the qualifyingShare.
+ * @param weight The weights of the voters, as passed to the voting method,
+ * used to count the registered voters when the tally does not record its turnout.
+ * @param withdraw A function given the qualified candidates, in decreasing order of first-round votes,
+ * and the first round tally, returning the candidates remaining for the second round.
+ * This allows to simulate candidates withdrawing, for instance to avoid splitting the vote.
+ * If no candidate remains, an AttributionFailure is thrown.
+ * @param tieBreak The tie-breaking policy deciding which candidates qualify
+ * among those tied at the cut of the nQualified best.
+ * Defaults to favoring the candidates appearing first in the first-round tally.
+ */
+export function twoRoundElection<Voter, Party>(
+    {
+        votingMethod,
+        attributionMethod,
+        majority = .5,
+        majorityOfRegistered = 0,
+        qualifyingShare,
+        nQualified = 2,
+        weight,
+        withdraw,
+        tieBreak = defaultTieBreak,
+    }: {
+        votingMethod: Voting<Voter, Party, Simple<Party>>,
+        attributionMethod: Attribution<Party, Simple<Party>>,
+        majority?: number,
+        majorityOfRegistered?: number,
+        qualifyingShare?: number,
+        nQualified?: number,
+        weight?: VoterWeights<Voter>,
+        withdraw?: (qualified: readonly Party[], firstRound: Simple<Party>) => Iterable<Party>,
+        tieBreak?: TieBreak<Party>,
+    }
+): RunoffElection<Voter, Party> {
+    const detailed = (voters: ReadonlyCollection<Voter>, candidates: ReadonlyCollection<Party>): RunoffResult<Party> => {
+        const firstRound: Simple<Party> & Partial<WithTurnout> = votingMethod(voters, candidates);
+        const nRegistered = firstRound.turnout?.registered
+            ?? sum(Array.from(voters, voterWeightFunction(weight)));
+        const ranked = [...firstRound.keys()].sort((a, b) => firstRound.get(b) - firstRound.get(a));
+
+        const [leader] = ranked;
+        if (leader !== undefined
+            && firstRound.get(leader) > majority * firstRound.total
+            && firstRound.get(leader) >= majorityOfRegistered * nRegistered) {
+            return { firstRound, seats: attributionMethod(firstRound) };
+        }
+
+        let qualified = highestN(ranked, nQualified,
+            party => firstRound.get(party), tieBreak, simpleContext(firstRound));
+        if (qualifyingShare !== undefined) {
+            const qualifiedByShare = ranked.filter(party => firstRound.get(party) >= qualifyingShare * nRegistered);
+            if (qualifiedByShare.length >= nQualified) {
+                qualified = qualifiedByShare;
+            }
+        }
+        if (withdraw !== undefined) {
+            qualified = [...withdraw(qualified, firstRound)];
+            if (qualified.length === 0) {
+                throw new AttributionFailure("All the qualified candidates withdrew");
+            }
+        }
+
+        const secondRound = votingMethod(voters, qualified);
+        return { firstRound, secondRound, qualified, seats: attributionMethod(secondRound) };
+    };
+
+    const election = (voters: ReadonlyCollection<Voter>, candidates: ReadonlyCollection<Party>): Counter<Party, number> =>
+        detailed(voters, candidates).seats;
+    election.detailed = detailed;
+    return election;
 }
 
 /**
@@ -0,0 +1,555 @@
+import { type Counter, NumberCounter } from "@gouvernathor/python/collections";
+import type RNG from "@gouvernathor/rng";
+import { createRandomObj, type RandomObjParam } from "../utils";
+import { type Attribution, AttributionFailure, type Proportional } from "./attribution";
+import { type Order, Pairwise, type Simple } from "./tally";
+
+/**
+ * A function creating a proportional attribution method, given a number of seats to allocate,
+ * such as jefferson or hamilton.
+ */
+export interface ProportionalFactory {
+    (p: { nSeats: number }): Proportional<string>;
+}
+
+/**
+ * The options common to the apportionment checkers.
+ *
+ * The tallies are generated at random, with nParties parties named "A", "B", "C"...,
+ * each receiving between 1 and maxVotes votes.
+ * Each tally is apportioned for every house size between minNSeats and maxNSeats.
+ *
+ * The randomization is based on the given parameters. If a RNG object
+ * is passed, it is used without reseeding. If a seed is passed,
+ * the random object is reseeded at each call of the checker,
+ * which then always generates the same tallies.
+ *
+ * The checked attributions should be deterministic :
+ * one breaking ties at random may show paradoxes which are only due to the tie-breaking.
+ */
+export type ApportionmentCheckOptions = {
+    nTallies?: number,
+    nParties?: number,
+    maxVotes?: number,
+    minNSeats?: number,
+    maxNSeats?: number,
+    /**
+     * The number of counterexamples after which the search stops.
+     */
+    maxCounterexamples?: number,
+} & RandomObjParam;
+
+/**
+ * Adding a seat to the house makes a party lose a seat.
+ */
+export interface AlabamaParadox {
+    readonly votes: Simple<string>;
+    readonly nSeats: number;
+    readonly seats: Counter<string, number>;
+    /**
+     * The seats with nSeats + 1 seats.
+     */
+    readonly largerSeats: Counter<string, number>;
+    /**
+     * The party losing a seat.
+     */
+    readonly party: string;
+}
+
+/**
+ * A party whose votes grow at a higher rate than another's loses a seat to it.
+ */
+export interface PopulationParadox {
+    readonly votes: Simple<string>;
+    readonly newVotes: Simple<string>;
+    readonly nSeats: number;
+    readonly seats: Counter<string, number>;
+    readonly newSeats: Counter<string, number>;
+    /**
+     * The party growing faster and losing a seat.
+     */
+    readonly party: string;
+    /**
+     * The party growing slower and gaining a seat.
+     */
+    readonly otherParty: string;
+}
+
+/**
+ * A new party joins, the house growing by exactly the number of seats the new party wins,
+ * and yet the seats of the other parties change.
+ */
+export interface NewStatesParadox {
+    readonly votes: Simple<string>;
+    readonly nSeats: number;
+    readonly seats: Counter<string, number>;
+    readonly newParty: string;
+    /**
+     * The votes, including those of the new party.
+     */
+    readonly newVotes: Simple<string>;
+    /**
+     * The seats with the new party, with nSeats plus the seats it wins.
+     */
+    readonly newSeats: Counter<string, number>;
+}
+
+/**
+ * A party wins fewer seats than its quota rounded down, or more than its quota rounded up.
+ */
+export interface QuotaViolation {
+    readonly votes: Simple<string>;
+    readonly nSeats: number;
+    readonly seats: Counter<string, number>;
+    readonly party: string;
+    /**
+     * The exact, fractional number of seats the party deserves.
+     */
+    readonly quota: number;
+}
+
+export interface ApportionmentReport {
+    readonly alabama: AlabamaParadox[];
+    readonly population: PopulationParadox[];
+    readonly newStates: NewStatesParadox[];
+    readonly quota: QuotaViolation[];
+}
+
+function partyName(n: number): string {
+    return String.fromCharCode(65 + n % 26) + (n >= 26 ? Math.floor(n / 26) : "");
+}
+
+function randomTally(randomObj: RNG, nParties: number, maxVotes: number): Simple<string> {
+    return NumberCounter.fromEntries(Array.from({ length: nParties },
+        (_, n) => [partyName(n), randomObj.randRange(1, maxVotes + 1)]));
+}
+
+/**
+ * Returns the same factory, caching the attributions for each number of seats.
+ */
+function cachedFactory(factory: ProportionalFactory): ProportionalFactory {
+    const attributions = new Map<number, Proportional<string>>();
+    return ({ nSeats }) => {
+        let attribution = attributions.get(nSeats);
+        if (attribution === undefined) {
+            attribution = factory({ nSeats });
+            attributions.set(nSeats, attribution);
+        }
+        return attribution;
+    };
+}
+
+/**
+ * Calls the attribution, returning undefined when it fails.
+ */
+function tryAttribution<Tally>(
+    attribution: Attribution<string, Tally>,
+    votes: Tally,
+): Counter<string, number> | undefined {
+    try {
+        return attribution(votes);
+    } catch (error) {
+        if (error instanceof AttributionFailure) {
+            return undefined;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Calls the check for each generated tally and house size,
+ * until enough counterexamples are found.
+ */
+function sweep<T>(
+    factory: ProportionalFactory,
+    {
+        nTallies = 100,
+        nParties = 5,
+        maxVotes = 100_000,
+        minNSeats = 1,
+        maxNSeats = 50,
+        maxCounterexamples = 1,
+        ...randomParam
+    }: ApportionmentCheckOptions,
+    check: (
+        factory: ProportionalFactory,
+        votes: Simple<string>,
+        nSeats: number,
+        randomObj: RNG,
+    ) => T | undefined,
+): T[] {
+    const randomObj = createRandomObj(randomParam);
+    // the checks draw from their own stream, so that the tallies do not depend on them
+    const checkRandomObj = createRandomObj({ randomSeed: randomObj.randSeed() });
+    const cached = cachedFactory(factory);
+    const counterexamples: T[] = [];
+    for (let t = 0; t < nTallies; t++) {
+        const votes = randomTally(randomObj, nParties, maxVotes);
+        for (let nSeats = minNSeats; nSeats <= maxNSeats; nSeats++) {
+            const counterexample = check(cached, votes, nSeats, checkRandomObj);
+            if (counterexample !== undefined) {
+                counterexamples.push(counterexample);
+                if (counterexamples.length >= maxCounterexamples) {
+                    return counterexamples;
+                }
+                break;
+            }
+        }
+    }
+    return counterexamples;
+}
+
+/**
+ * Returns the instance of the Alabama paradox shown by the votes
+ * when the house grows from nSeats to nSeats + 1 seats, if any.
+ */
+export function alabamaParadox(
+    factory: ProportionalFactory,
+    votes: Simple<string>,
+    nSeats: number,
+): AlabamaParadox | undefined {
+    const seats = tryAttribution(factory({ nSeats }), votes);
+    const largerSeats = tryAttribution(factory({ nSeats: nSeats + 1 }), votes);
+    if (seats === undefined || largerSeats === undefined) {
+        return undefined;
+    }
+    const party = [...votes.keys()].find(party => largerSeats.get(party) < seats.get(party));
+    if (party === undefined) {
+        return undefined;
+    }
+    return { votes, nSeats, seats, largerSeats, party };
+}
+
+/**
+ * Searches for instances of the Alabama paradox :
+ * a party losing a seat when the house grows by one seat, the votes being the same.
+ */
+export function findAlabamaParadoxes(
+    factory: ProportionalFactory,
+    options: ApportionmentCheckOptions = {},
+): AlabamaParadox[] {
+    return sweep(factory, options, alabamaParadox);
+}
+
+/**
+ * Returns the instance of the population paradox shown
+ * when the votes change to newVotes, the house having nSeats seats, if any.
+ */
+export function populationParadox(
+    factory: ProportionalFactory,
+    votes: Simple<string>,
+    newVotes: Simple<string>,
+    nSeats: number,
+): PopulationParadox | undefined {
+    const attribution = factory({ nSeats });
+    const seats = tryAttribution(attribution, votes);
+    const newSeats = tryAttribution(attribution, newVotes);
+    if (seats === undefined || newSeats === undefined) {
+        return undefined;
+    }
+    const growth = (party: string) => newVotes.get(party) / votes.get(party);
+    for (const party of votes.keys()) {
+        if (newSeats.get(party) >= seats.get(party)) {
+            continue;
+        }
+        for (const otherParty of votes.keys()) {
+            if (newSeats.get(otherParty) > seats.get(otherParty) && growth(party) > growth(otherParty)) {
+                return { votes, newVotes, nSeats, seats, newSeats, party, otherParty };
+            }
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Searches for instances of the population paradox :
+ * the votes of each party changing by up to the populationChange ratio, the house size being the same,
+ * a party whose votes grow at a higher rate than another's loses a seat to that other party.
+ */
+export function findPopulationParadoxes(
+    factory: ProportionalFactory,
+    { populationChange = .1, ...options }: ApportionmentCheckOptions & {
+        populationChange?: number,
+    } = {},
+): PopulationParadox[] {
+    return sweep(factory, options, (factory, votes, nSeats, randomObj) => {
+        const newVotes = NumberCounter.fromEntries(Array.from(votes, ([party, v]) =>
+            [party, Math.max(1, Math.round(v * randomObj.uniform(1 - populationChange, 1 + populationChange)))]));
+        return populationParadox(factory, votes, newVotes, nSeats);
+    });
+}
+
+/**
+ * Returns the instance of the new states paradox shown
+ * when the newParty joins with the given votes, the house having nSeats seats before that, if any.
+ */
+export function newStatesParadox(
+    factory: ProportionalFactory,
+    votes: Simple<string>,
+    nSeats: number,
+    newParty: string,
+    newPartyVotes: number,
+): NewStatesParadox | undefined {
+    const seats = tryAttribution(factory({ nSeats }), votes);
+    if (seats === undefined) {
+        return undefined;
+    }
+    const newVotes = NumberCounter.fromEntries(votes);
+    newVotes.set(newParty, newPartyVotes);
+
+    // the added seats may only be around the quota of the new party
+    const quota = nSeats * newPartyVotes / votes.total;
+    for (let added = Math.max(1, Math.floor(quota) - 1); added <= Math.ceil(quota) + 1; added++) {
+        const newSeats = tryAttribution(factory({ nSeats: nSeats + added }), newVotes);
+        if (newSeats === undefined || newSeats.get(newParty) !== added) {
+            continue;
+        }
+        if ([...votes.keys()].some(party => newSeats.get(party) !== seats.get(party))) {
+            return { votes, nSeats, seats, newParty, newVotes, newSeats };
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Searches for instances of the new states paradox :
+ * a new party joining, with a random number of votes,
+ * and the house growing by exactly the number of seats the new party wins,
+ * the seats of the other parties change.
+ */
+export function findNewStatesParadoxes(
+    factory: ProportionalFactory,
+    options: ApportionmentCheckOptions = {},
+): NewStatesParadox[] {
+    const { nParties = 5, maxVotes = 100_000 } = options;
+    const newParty = partyName(nParties);
+    return sweep(factory, options, (factory, votes, nSeats, randomObj) =>
+        newStatesParadox(factory, votes, nSeats, newParty, randomObj.randRange(1, maxVotes + 1)));
+}
+
+/**
+ * Returns the violation of the quota rule by the attribution of nSeats seats, if any.
+ */
+export function quotaViolation(
+    factory: ProportionalFactory,
+    votes: Simple<string>,
+    nSeats: number,
+): QuotaViolation | undefined {
+    const seats = tryAttribution(factory({ nSeats }), votes);
+    if (seats === undefined) {
+        return undefined;
+    }
+    const allVotes = votes.total;
+    for (const [party, v] of votes) {
+        const quota = nSeats * v / allVotes;
+        const partySeats = seats.get(party);
+        if (partySeats < Math.floor(quota) || partySeats > Math.ceil(quota)) {
+            return { votes, nSeats, seats, party, quota };
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Searches for violations of the quota rule :
+ * a party winning fewer seats than its quota rounded down,
+ * or more seats than its quota rounded up.
+ */
+export function findQuotaViolations(
+    factory: ProportionalFactory,
+    options: ApportionmentCheckOptions = {},
+): QuotaViolation[] {
+    return sweep(factory, options, quotaViolation);
+}
+
+/**
+ * Searches for instances of all the apportionment paradoxes, and for violations of the quota rule.
+ * When a seed is passed, all the searches use the same tallies.
+ */
+export function checkApportionment(
+    factory: ProportionalFactory,
+    options: ApportionmentCheckOptions = {},
+): ApportionmentReport {
+    return {
+        alabama: findAlabamaParadoxes(factory, options),
+        population: findPopulationParadoxes(factory, options),
+        newStates: findNewStatesParadoxes(factory, options),
+        quota: findQuotaViolations(factory, options),
+    };
+}
+
+
+/**
+ * The options common to the checkers of the attributions taking ranked ballots.
+ *
+ * The tallies are generated at random, with nCandidates candidates named "A", "B", "C"...,
+ * and nVoters voters each ranking all the candidates in a random order.
+ *
+ * The randomization works as in ApportionmentCheckOptions.
+ *
+ * The checked attribution should be deterministic :
+ * one breaking ties at random may show failures which are only due to the tie-breaking.
+ */
+export type OrderCheckOptions = {
+    nTallies?: number,
+    nCandidates?: number,
+    nVoters?: number,
+    maxCounterexamples?: number,
+} & RandomObjParam;
+
+/**
+ * A party winning a seat loses seats after some voters rank it higher, all else being equal.
+ */
+export interface MonotonicityFailure {
+    readonly votes: Order<string>;
+    readonly seats: Counter<string, number>;
+    /**
+     * The votes after some ballots ranked the party higher.
+     */
+    readonly newVotes: Order<string>;
+    readonly newSeats: Counter<string, number>;
+    readonly party: string;
+}
+
+/**
+ * A party preferred to each other party by a majority of the voters wins no seat.
+ */
+export interface CondorcetFailure {
+    readonly votes: Order<string>;
+    readonly seats: Counter<string, number>;
+    readonly condorcetWinner: string;
+}
+
+export interface OrderReport {
+    readonly monotonicity: MonotonicityFailure[];
+    readonly condorcet: CondorcetFailure[];
+}
+
+/**
+ * Calls the check for each generated tally, until enough counterexamples are found.
+ */
+function orderSweep<T>(
+    {
+        nTallies = 100,
+        nCandidates = 4,
+        nVoters = 15,
+        maxCounterexamples = 1,
+        ...randomParam
+    }: OrderCheckOptions,
+    check: (votes: Order<string>, randomObj: RNG) => T | undefined,
+): T[] {
+    const randomObj = createRandomObj(randomParam);
+    // the checks draw from their own stream, so that the tallies do not depend on them
+    const checkRandomObj = createRandomObj({ randomSeed: randomObj.randSeed() });
+    const candidates = Array.from({ length: nCandidates }, (_, n) => partyName(n));
+    const counterexamples: T[] = [];
+    for (let t = 0; t < nTallies; t++) {
+        const votes = Array.from({ length: nVoters }, () => randomObj.shuffled(candidates));
+        const counterexample = check(votes, checkRandomObj);
+        if (counterexample !== undefined) {
+            counterexamples.push(counterexample);
+            if (counterexamples.length >= maxCounterexamples) {
+                break;
+            }
+        }
+    }
+    return counterexamples;
+}
+
+/**
+ * Returns the failure of monotonicity shown when the votes change to newVotes, if any.
+ * The newVotes should only differ from the votes by ranking the party higher.
+ */
+export function monotonicityFailure(
+    attribution: Attribution<string, Order<string>>,
+    votes: Order<string>,
+    newVotes: Order<string>,
+    party: string,
+): MonotonicityFailure | undefined {
+    const seats = tryAttribution(attribution, votes);
+    const newSeats = tryAttribution(attribution, newVotes);
+    if (seats === undefined || newSeats === undefined || newSeats.get(party) >= seats.get(party)) {
+        return undefined;
+    }
+    return { votes, seats, newVotes, newSeats, party };
+}
+
+/**
+ * Searches for failures of monotonicity :
+ * for each party winning a seat, some random ballots not ranking it first
+ * are changed to rank it one place higher,
+ * and the party should not lose seats as a result.
+ */
+export function findMonotonicityFailures(
+    attribution: Attribution<string, Order<string>>,
+    options: OrderCheckOptions = {},
+): MonotonicityFailure[] {
+    return orderSweep(options, (votes, randomObj) => {
+        const seats = tryAttribution(attribution, votes);
+        if (seats === undefined) {
+            return undefined;
+        }
+        for (const party of seats.pos.keys()) {
+            const newVotes = votes.map(ballot => {
+                const rank = ballot.indexOf(party);
+                if (rank <= 0 || randomObj.random() < .5) {
+                    return ballot;
+                }
+                const newBallot = ballot.slice();
+                [newBallot[rank - 1], newBallot[rank]] = [party, ballot[rank - 1]!];
+                return newBallot;
+            });
+            const failure = monotonicityFailure(attribution, votes, newVotes, party);
+            if (failure !== undefined) {
+                return failure;
+            }
+        }
+        return undefined;
+    });
+}
+
+/**
+ * Returns the failure of the Condorcet criterion shown by the votes, if any.
+ */
+export function condorcetFailure(
+    attribution: Attribution<string, Order<string>>,
+    votes: Order<string>,
+): CondorcetFailure | undefined {
+    const pairwise = Pairwise.fromOrder(votes);
+    const parties = [...pairwise.keys()];
+    const condorcetWinner = parties.find(party => parties.every(other =>
+        other === party || pairwise.get(party).get(other) > pairwise.get(other).get(party)));
+    if (condorcetWinner === undefined) {
+        return undefined;
+    }
+    const seats = tryAttribution(attribution, votes);
+    if (seats === undefined || seats.get(condorcetWinner) > 0) {
+        return undefined;
+    }
+    return { votes, seats, condorcetWinner };
+}
+
+/**
+ * Searches for failures of the Condorcet criterion :
+ * the party preferred to each other party by a majority of the voters, if any, should win a seat.
+ */
+export function findCondorcetFailures(
+    attribution: Attribution<string, Order<string>>,
+    options: OrderCheckOptions = {},
+): CondorcetFailure[] {
+    return orderSweep(options, votes => condorcetFailure(attribution, votes));
+}
+
+/**
+ * Searches for failures of both monotonicity and the Condorcet criterion.
+ * When a seed is passed, both searches use the same tallies.
+ */
+export function checkOrderAttribution(
+    attribution: Attribution<string, Order<string>>,
+    options: OrderCheckOptions = {},
+): OrderReport {
+    return {
+        monotonicity: findMonotonicityFailures(attribution, options),
+        condorcet: findCondorcetFailures(attribution, options),
+    };
+}
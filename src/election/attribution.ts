@@ -49,3 +49,102 @@ export {
 export {
     boundedRankIndexMethod,
 } from "./attribution/proportionalBase";
+
+
+// 3.1.x exports
+
+export {
+    addListAlliances,
+    addMajorityBonus,
+} from "./attribution/transform";
+export {
+    flooredRankIndexMethod,
+    type ExactRankIndexFunction,
+} from "./attribution/proportionalBase";
+export {
+    Fraction,
+} from "./attribution/fraction";
+
+export {
+    type QuotaFunction,
+    hareQuota,
+    droopQuota,
+    hagenbachBischoffQuota,
+    imperialiQuota,
+    stationaryDivisorFunction,
+} from "./attribution/proportionalBase";
+export {
+    largestRemainderFromQuota,
+    droopLargestRemainders,
+    hagenbachBischoffLargestRemainders,
+    imperialiLargestRemainders,
+    type ZeroFirstDivisorMethodFactory,
+    adams,
+    smallestDivisors,
+    dean,
+    danish,
+    modifiedSainteLague,
+    stationaryDivisorMethod,
+} from "./attribution/proportionalFactory";
+export {
+    singleTransferableVote,
+} from "./attribution/orderingFactory";
+export {
+    type PairwiseAttribution,
+    type DefeatStrength,
+    schulze,
+    rankedPairs,
+    copeland,
+    minimax,
+    kemenyYoung,
+} from "./attribution/pairwiseFactory";
+export {
+    proportionalApprovalVoting,
+    sequentialProportionalApprovalVoting,
+    phragmen,
+    equalShares,
+} from "./attribution/approvalFactory";
+export {
+    star,
+    reweightedRangeVoting,
+    allocatedScore,
+    type MeritProfile,
+    meritProfiles,
+    majorityJudgment,
+} from "./attribution/scoreFactory";
+export {
+    type Biproportional,
+    biproportional,
+} from "./attribution/biproportionalFactory";
+export {
+    type TieBreak,
+    type TieBreakContext,
+    randomTieBreak,
+    candidateOrderTieBreak,
+    mostVotesTieBreak,
+    failTieBreak,
+} from "./attribution/tieBreak";
+export {
+    type PartyValues,
+    type ScoresStep,
+    type RoundStep,
+    type RankIndexStep,
+    type RemaindersStep,
+    type PairwiseStep,
+    type ThresholdStep,
+    type TieStep,
+    type AttributionStep,
+    type TraceOption,
+    traceAttribution,
+} from "./attribution/trace";
+export {
+    type DisproportionMetric,
+    type IncrementalMetric,
+    defaultMetric,
+    gallagherIndex,
+    loosemoreHanbyIndex,
+    raeIndex,
+    sainteLagueIndex,
+    dHondtIndex,
+    effectiveNumberOfParties,
+} from "./attribution/metrics";
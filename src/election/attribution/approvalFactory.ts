@@ -0,0 +1,326 @@
+import { sum } from "@gouvernathor/python";
+import { type Counter, NumberCounter } from "@gouvernathor/python/collections";
+import { ApprovalProfile } from "../tally";
+import { type Attribution, type HasNSeats } from "../attribution";
+import { approvalContext, breakTie, defaultTieBreak, highest, highestN, type TieBreak, type TieBreakContext } from "./tieBreak";
+import { type AttributionStep, tracedTieBreak, type TraceOption } from "./trace";
+
+/**
+ * Returns the parties approved by at least one ballot, in order of first appearance.
+ */
+function approvedParties<Party>(votes: ApprovalProfile<Party>): Party[] {
+    return [...new Set(votes.flatMap(([approved]) => [...approved]))];
+}
+
+function* combinations<T>(elements: readonly T[], k: number, start = 0): Generator<T[]> {
+    if (k === 0) {
+        yield [];
+        return;
+    }
+    for (let i = start; i <= elements.length - k; i++) {
+        for (const rest of combinations(elements, k - 1, i + 1)) {
+            yield [elements[i]!, ...rest];
+        }
+    }
+}
+
+/**
+ * Returns the committee including the most favored party among those
+ * which are members of some but not all of the committees.
+ */
+function favoredCommittee<Party>(
+    committees: readonly (readonly Party[])[],
+    parties: readonly Party[],
+    tieBreak: TieBreak<Party>,
+    context: TieBreakContext<Party>,
+): readonly Party[] {
+    if (committees.length <= 1) {
+        return committees[0] ?? [];
+    }
+    const tied = parties.filter(party => {
+        const nCommittees = committees.filter(committee => committee.includes(party)).length;
+        return 0 < nCommittees && nCommittees < committees.length;
+    });
+    let remaining = committees;
+    for (const party of breakTie(tied, tieBreak, context)) {
+        if (remaining.some(committee => committee.includes(party))) {
+            remaining = remaining.filter(committee => committee.includes(party));
+        }
+    }
+    return remaining[0]!;
+}
+
+function harmonic(n: number): number {
+    let h = 0;
+    for (let i = 1; i <= n; i++) {
+        h += 1 / i;
+    }
+    return h;
+}
+
+/**
+ * Creates an attribution method implementing Proportional Approval Voting,
+ * in which the committee of nSeats parties maximizing the satisfaction of the voters wins,
+ * one seat for each elected party.
+ * Each ballot approving n elected parties brings a satisfaction of 1 + 1/2 + ... + 1/n.
+ *
+ * Each party wins at most one seat, so the parties should be individual candidates.
+ * If fewer parties are approved than there are seats, fewer than nSeats seats are attributed.
+ *
+ * The computation goes through all possible committees, which makes it very slow
+ * with more than a few dozen parties :
+ * consider using sequentialProportionalApprovalVoting instead.
+ *
+ * @param tieBreak The tie-breaking policy between committees of equal satisfaction :
+ * the parties belonging to some but not all of these committees are ranked by the policy,
+ * and the committee including the most favored of them wins.
+ * Defaults to favoring the parties appearing first in the tally.
+ */
+export function proportionalApprovalVoting<Party>(
+    { nSeats, tieBreak = defaultTieBreak }: {
+        nSeats: number,
+        tieBreak?: TieBreak<Party>,
+    }
+): Attribution<Party, ApprovalProfile<Party>> & HasNSeats {
+    const attrib = (votes: ApprovalProfile<Party>, _rest = {}): Counter<Party, number> => {
+        const parties = approvedParties(votes);
+        const harmonics = Array.from({ length: nSeats + 1 }, (_, n) => harmonic(n));
+
+        let bestCommittees: Party[][] = [];
+        let bestSatisfaction = -Infinity;
+        for (const committee of combinations(parties, Math.min(nSeats, parties.length))) {
+            const elected = new Set(committee);
+            const satisfaction = sum(votes.map(([approved, count]) =>
+                count * harmonics[[...approved].filter(party => elected.has(party)).length]!));
+            if (satisfaction > bestSatisfaction) {
+                bestCommittees = [committee];
+                bestSatisfaction = satisfaction;
+            } else if (satisfaction === bestSatisfaction) {
+                bestCommittees.push(committee);
+            }
+        }
+        return NumberCounter.fromKeys(favoredCommittee(bestCommittees, parties, tieBreak, approvalContext(votes)));
+    };
+    attrib.nSeats = nSeats;
+    return attrib;
+}
+
+/**
+ * Creates an attribution method implementing Sequential Proportional Approval Voting,
+ * also called Reweighted Approval Voting,
+ * in which the seats are attributed one at a time to the party with the most weighted approvals.
+ * Each ballot approving n already-elected parties weighs 1/(n+1).
+ *
+ * Each party wins at most one seat, so the parties should be individual candidates.
+ * If fewer parties are approved than there are seats, fewer than nSeats seats are attributed.
+ *
+ * @param tieBreak The tie-breaking policy between the parties having the most weighted approvals.
+ * Defaults to favoring the party appearing first in the tally.
+ */
+export function sequentialProportionalApprovalVoting<Party>(
+    { nSeats, tieBreak = defaultTieBreak }: {
+        nSeats: number,
+        tieBreak?: TieBreak<Party>,
+    }
+): Attribution<Party, ApprovalProfile<Party>> & HasNSeats {
+    const attrib = (votes: ApprovalProfile<Party>, { trace }: TraceOption<Party> = {}): Counter<Party, number> => {
+        const context = approvalContext(votes);
+        const partyTieBreak = tracedTieBreak(tieBreak, trace);
+        const hopeful = approvedParties(votes);
+        const elected = new Set<Party>();
+        // the number of elected parties approved by each ballot
+        const nElected = votes.map(() => 0);
+
+        while (elected.size < nSeats && hopeful.length > 0) {
+            const weights = new Map(hopeful.map(party => [party, 0]));
+            for (const [b, [approved, count]] of votes.entries()) {
+                for (const party of approved) {
+                    if (weights.has(party)) {
+                        weights.set(party, weights.get(party)! + count / (1 + nElected[b]!));
+                    }
+                }
+            }
+
+            const winner = highest(hopeful, party => weights.get(party)!, partyTieBreak, context);
+            trace?.push({ kind: "round", attribution: "sequentialProportionalApprovalVoting", round: elected.size + 1,
+                tally: [...weights.entries()], elected: [winner], eliminated: [] });
+            hopeful.splice(hopeful.indexOf(winner), 1);
+            elected.add(winner);
+            for (const [b, [approved]] of votes.entries()) {
+                if (approved.has(winner)) {
+                    nElected[b]!++;
+                }
+            }
+        }
+        return NumberCounter.fromKeys(elected);
+    };
+    attrib.nSeats = nSeats;
+    return attrib;
+}
+
+/**
+ * Attributes the seats one at a time, following Phragmén's sequential method,
+ * starting with the given loads of the ballots.
+ * Mutates the hopeful, elected and loads parameters, and records the rounds to the trace if any.
+ */
+function phragmenSequence<Party>(
+    votes: ApprovalProfile<Party>,
+    nSeats: number,
+    hopeful: Party[],
+    elected: Set<Party>,
+    loads: number[],
+    tieBreak: TieBreak<Party>,
+    context: TieBreakContext<Party>,
+    trace: AttributionStep<Party>[] | undefined,
+    attribution: string,
+): void {
+    while (elected.size < nSeats && hopeful.length > 0) {
+        const supports = new Map(hopeful.map(party => [party, 0]));
+        const supportLoads = new Map(hopeful.map(party => [party, 0]));
+        for (const [b, [approved, count]] of votes.entries()) {
+            for (const party of approved) {
+                if (supports.has(party)) {
+                    supports.set(party, supports.get(party)! + count);
+                    supportLoads.set(party, supportLoads.get(party)! + count * loads[b]!);
+                }
+            }
+        }
+
+        // the load each of its supporters would bear if the party were elected
+        const newLoads = new Map(hopeful.map(party =>
+            [party, (1 + supportLoads.get(party)!) / supports.get(party)!]));
+        const winner = highest(hopeful, party => -newLoads.get(party)!, tieBreak, context);
+        trace?.push({ kind: "round", attribution, round: elected.size + 1,
+            tally: [...newLoads.entries()], elected: [winner], eliminated: [] });
+        const winnerLoad = newLoads.get(winner)!;
+        hopeful.splice(hopeful.indexOf(winner), 1);
+        elected.add(winner);
+        for (const [b, [approved]] of votes.entries()) {
+            if (approved.has(winner)) {
+                loads[b] = winnerLoad;
+            }
+        }
+    }
+}
+
+/**
+ * Creates an attribution method implementing Phragmén's sequential method,
+ * in which each elected party puts a load of 1 on the ballots approving it,
+ * and the seats are attributed one at a time to the party
+ * which minimizes the maximal load on the ballots after its election.
+ *
+ * Each party wins at most one seat, so the parties should be individual candidates.
+ * If fewer parties are approved than there are seats, fewer than nSeats seats are attributed.
+ *
+ * @param tieBreak The tie-breaking policy between the parties leading to the same maximal load.
+ * Defaults to favoring the party appearing first in the tally.
+ */
+export function phragmen<Party>(
+    { nSeats, tieBreak = defaultTieBreak }: {
+        nSeats: number,
+        tieBreak?: TieBreak<Party>,
+    }
+): Attribution<Party, ApprovalProfile<Party>> & HasNSeats {
+    const attrib = (votes: ApprovalProfile<Party>, { trace }: TraceOption<Party> = {}): Counter<Party, number> => {
+        const elected = new Set<Party>();
+        phragmenSequence(votes, nSeats, approvedParties(votes), elected, votes.map(() => 0),
+            tracedTieBreak(tieBreak, trace), approvalContext(votes), trace, "phragmen");
+        return NumberCounter.fromKeys(elected);
+    };
+    attrib.nSeats = nSeats;
+    return attrib;
+}
+
+/**
+ * Creates an attribution method implementing the Method of Equal Shares.
+ * Each voter receives an equal share of a budget of nSeats, and each seat costs 1.
+ * The seats are attributed one at a time to the party whose cost can be paid
+ * by the voters approving it while making each of them pay the least.
+ *
+ * When no remaining party can be paid for, the remaining seats are attributed
+ * following the completion method.
+ *
+ * Each party wins at most one seat, so the parties should be individual candidates.
+ * If fewer parties are approved than there are seats, fewer than nSeats seats are attributed.
+ *
+ * @param completion How to attribute the seats remaining after no party can be paid for.
+ * - "phragmen" (the default) continues with Phragmén's sequential method,
+ * the load of each ballot starting at what it paid.
+ * - "approvals" attributes the remaining seats to the most-approved remaining parties.
+ * @param tieBreak The tie-breaking policy, both between the parties costing the same to their supporters,
+ * and during the completion.
+ * Defaults to favoring the party appearing first in the tally.
+ */
+export function equalShares<Party>(
+    { nSeats, completion = "phragmen", tieBreak = defaultTieBreak }: {
+        nSeats: number,
+        completion?: "phragmen" | "approvals",
+        tieBreak?: TieBreak<Party>,
+    }
+): Attribution<Party, ApprovalProfile<Party>> & HasNSeats {
+    const attrib = (votes: ApprovalProfile<Party>, { trace }: TraceOption<Party> = {}): Counter<Party, number> => {
+        const context = approvalContext(votes);
+        const partyTieBreak = tracedTieBreak(tieBreak, trace);
+        const hopeful = approvedParties(votes);
+        const elected = new Set<Party>();
+        const nVoters = sum(votes.map(([_, count]) => count));
+        // the budget remaining to each voter of each ballot
+        const budgets = votes.map(() => nSeats / nVoters);
+
+        while (elected.size < nSeats && hopeful.length > 0) {
+            // the amount each supporter pays for the party, for the parties which can be paid for
+            const payments = new Map<Party, number>();
+            for (const party of hopeful) {
+                const supporters = [...votes.entries()]
+                    .filter(([_, [approved]]) => approved.has(party))
+                    .sort(([b1], [b2]) => budgets[b1]! - budgets[b2]!);
+
+                // the poorest supporters pay all they have left, the others pay the same amount
+                let remainingCost = 1;
+                let remainingSupporters = sum(supporters.map(([_, [_approved, count]]) => count));
+                for (const [b, [_, count]] of supporters) {
+                    const payment = remainingCost / remainingSupporters;
+                    if (budgets[b]! >= payment) {
+                        payments.set(party, payment);
+                        break;
+                    }
+                    remainingCost -= budgets[b]! * count;
+                    remainingSupporters -= count;
+                }
+            }
+
+            if (payments.size === 0) {
+                break;
+            }
+
+            const winner = highest([...payments.keys()], party => -payments.get(party)!, partyTieBreak, context);
+            trace?.push({ kind: "round", attribution: "equalShares", round: elected.size + 1,
+                tally: [...payments.entries()], elected: [winner], eliminated: [] });
+            const payment = payments.get(winner)!;
+            hopeful.splice(hopeful.indexOf(winner), 1);
+            elected.add(winner);
+            for (const [b, [approved]] of votes.entries()) {
+                if (approved.has(winner)) {
+                    budgets[b] = Math.max(0, budgets[b]! - payment);
+                }
+            }
+        }
+
+        switch (completion) {
+            case "phragmen":
+                phragmenSequence(votes, nSeats, hopeful, elected,
+                    budgets.map(budget => nSeats / nVoters - budget), partyTieBreak, context, trace, "equalShares");
+                break;
+            case "approvals": {
+                const approvals = context.firstRound;
+                for (const party of highestN(hopeful, nSeats - elected.size, party => approvals.get(party), partyTieBreak, context)) {
+                    elected.add(party);
+                }
+                break;
+            }
+        }
+        return NumberCounter.fromKeys(elected);
+    };
+    attrib.nSeats = nSeats;
+    return attrib;
+}
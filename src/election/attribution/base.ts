@@ -1,16 +1,32 @@
-import { type Counter } from "@gouvernathor/python/collections";
+import { type Counter, type ReadonlyCounter } from "@gouvernathor/python/collections";
 
 /**
  * To be thrown when an attribution fails to attribute seats,
  * but only in a case where it's an expected limitation of the attribution method.
  * The typical example being the Condorcet standoff, or a majority threshold,
- * but a tie could be another example (though they are usually not checked in provided implementations).
+ * but a tie could be another example, when the failTieBreak tie-breaking policy is used.
  *
  * Other errors may and will be raised by the attribution methods for other reasons,
  * such as invalid input data, division by zero...
  */
 export class AttributionFailure extends Error { }
 
+/**
+ * Thrown by the failTieBreak tie-breaking policy,
+ * when the attribution cannot decide between several parties.
+ */
+export class TieFailure<Party = unknown> extends AttributionFailure {
+    /**
+     * @param parties The tied parties.
+     */
+    constructor(
+        public readonly parties: readonly Party[],
+        message = `Tie between ${parties.length} parties`,
+    ) {
+        super(message);
+    }
+}
+
 /**
  * A function to manage how the results from the ballots
  * translate into an allocation of seats.
@@ -35,8 +51,20 @@ export class AttributionFailure extends Error { }
 export interface Attribution<Party, Tally> {
     (votes: Tally, rest?: Record<string, any>): Counter<Party, number>;
 }
-// TODO: for all attributions where it can make sense to start with some apportionned seats,
-// add an option to pass some.
+
+/**
+ * The standard option, passed through the rest parameter of an Attribution,
+ * for the attributions supporting to start with some seats already apportioned,
+ * for instance seats won in constituencies, or seats to be leveled.
+ *
+ * The initial seats are included in the returned attribution,
+ * and count towards its total number of seats :
+ * the attribution only apportions the seats remaining after them.
+ * Passing more initial seats than the attribution is to apportion is an error.
+ */
+export interface InitialSeatsOption<Party> {
+    initialSeats?: ReadonlyCounter<Party, number>;
+}
 
 /**
  * Most attributions should generally implement this interface,
@@ -0,0 +1,152 @@
+import { sum } from "@gouvernathor/python";
+import { type Counter, NumberCounter } from "@gouvernathor/python/collections";
+import { type Simple } from "../tally";
+import { AttributionFailure } from "../attribution";
+import { type DivisorFunction, type Proportional, proportionalFromDivisorFunction, stationaryDivisorFunction } from "./proportionalBase";
+
+/**
+ * A function to manage how the results from the ballots of several districts
+ * translate into an allocation of seats in each district.
+ *
+ * @param votes The tally of the ballots in each district.
+ * @param rest This parameter plays the same role as in the Attribution interface.
+ *
+ * @returns The attribution of seats to the parties in each district.
+ */
+export interface Biproportional<District, Party> {
+    (votes: ReadonlyMap<District, Simple<Party>>, rest?: Record<string, any>): Map<District, Counter<Party, number>>;
+}
+
+/**
+ * Apportions the seats proportionally to the weights,
+ * following the divisor method whose signposts are given.
+ *
+ * @returns The seats, and a divisor such that rounding each weight divided by it gives the seats.
+ */
+function apportion<K>(
+    weights: ReadonlyMap<K, number>,
+    nSeats: number,
+    signpost: DivisorFunction,
+): { seats: Map<K, number>, divisor: number } {
+    const positiveWeights = NumberCounter.fromEntries([...weights.entries()].filter(([_, w]) => w > 0));
+    const keys = [...positiveWeights.keys()];
+    const seats = new Map([...weights.keys()].map(key => [key, 0]));
+    if (keys.length > 0) {
+        const attrib = proportionalFromDivisorFunction<K>({ nSeats, divisorFunction: signpost });
+        for (const [key, n] of attrib(positiveWeights)) {
+            seats.set(key, n);
+        }
+    }
+
+    // the lowest quotient having won a seat, and the highest one not having won a seat
+    const upper = Math.min(...keys.filter(key => seats.get(key)! > 0)
+        .map(key => weights.get(key)! / signpost(seats.get(key)! - 1)));
+    const lower = Math.max(0, ...keys.map(key => weights.get(key)! / signpost(seats.get(key)!)));
+    let divisor: number;
+    if (upper === Infinity) {
+        divisor = lower > 0 ? 2 * lower : 1;
+    } else {
+        divisor = (upper + lower) / 2;
+    }
+    return { seats, divisor };
+}
+
+/**
+ * Creates a biproportional attribution method, also known as double proportionality
+ * or "Doppelter Pukelsheim", as used in several swiss cantons such as Zurich.
+ *
+ * Each district has a fixed number of seats, and the number of seats of each party
+ * across all districts is first decided by the upper apportionment,
+ * based upon the votes of each party summed across the districts.
+ * Then, the lower apportionment finds a divisor for each district and a divisor for each party,
+ * such that rounding the votes of each party in each district, divided by both divisors,
+ * gives seats totalling both the number of seats of each district and the number of seats of each party.
+ * These divisors are computed by alternately scaling the districts' and the parties' divisors.
+ *
+ * @param districtSeats The number of seats of each district.
+ * @param upperAttribution A function creating the proportional attribution method for the upper apportionment,
+ * given a number of seats to allocate, such as webster or jefferson.
+ * @param signpost The rounding rule of the lower apportionment, as a divisor function
+ * giving the value above which a quotient rounds to more than k seats.
+ * It should be between k and k + 1. Defaults to the standard rounding, k + 1/2.
+ * @param normalizeByMagnitude If true, the votes of each party in each district are divided
+ * by the number of seats of the district before being summed for the upper apportionment.
+ * This is useful when each voter casts as many votes as there are seats in their district, as in Zurich.
+ * @param maxIterations The maximum number of scaling iterations.
+ * If the seats still do not fit both the districts and the parties after that,
+ * which can happen in case of ties, an AttributionFailure error is thrown.
+ */
+export function biproportional<District, Party>(
+    {
+        districtSeats,
+        upperAttribution,
+        signpost = stationaryDivisorFunction(.5),
+        normalizeByMagnitude = false,
+        maxIterations = 1000,
+    }: {
+        districtSeats: ReadonlyMap<District, number>,
+        upperAttribution: (p: { nSeats: number }) => Proportional<Party>,
+        signpost?: DivisorFunction,
+        normalizeByMagnitude?: boolean,
+        maxIterations?: number,
+    }
+): Biproportional<District, Party> {
+    const nSeats = sum(districtSeats.values());
+
+    return (votes: ReadonlyMap<District, Simple<Party>>, rest = {}): Map<District, Counter<Party, number>> => {
+        const districts = [...districtSeats.keys()];
+
+        const partyVotes = NumberCounter.fromEntries<Party>();
+        for (const district of districts) {
+            const districtVotes = votes.get(district);
+            if (districtVotes === undefined) {
+                continue;
+            }
+            const factor = normalizeByMagnitude ? districtSeats.get(district)! : 1;
+            for (const [party, v] of districtVotes) {
+                partyVotes.increment(party, v / factor);
+            }
+        }
+        const partySeats = upperAttribution({ nSeats })(partyVotes, rest);
+        const parties = [...partySeats.pos.keys()];
+
+        const voteOf = (district: District, party: Party) => votes.get(district)?.get(party) ?? 0;
+        const seats = new Map(districts.map(district => [district, new Map(parties.map(party => [party, 0]))]));
+        const districtDivisors = new Map(districts.map(district => [district, 1]));
+        const partyDivisors = new Map(parties.map(party => [party, 1]));
+
+        const partiesFit = () => parties.every(party =>
+            sum(districts.map(district => seats.get(district)!.get(party)!)) === partySeats.get(party));
+        const districtsFit = () => districts.every(district =>
+            sum(seats.get(district)!.values()) === districtSeats.get(district));
+
+        for (let iteration = 0; iteration < maxIterations; iteration++) {
+            for (const district of districts) {
+                const { seats: districtResult, divisor } = apportion(
+                    new Map(parties.map(party => [party, voteOf(district, party) / partyDivisors.get(party)!])),
+                    districtSeats.get(district)!, signpost);
+                seats.set(district, districtResult);
+                districtDivisors.set(district, divisor);
+            }
+            if (partiesFit()) {
+                return new Map(districts.map(district =>
+                    [district, NumberCounter.fromEntries(seats.get(district)!).pos]));
+            }
+
+            for (const party of parties) {
+                const { seats: partyResult, divisor } = apportion(
+                    new Map(districts.map(district => [district, voteOf(district, party) / districtDivisors.get(district)!])),
+                    partySeats.get(party), signpost);
+                for (const [district, n] of partyResult) {
+                    seats.get(district)!.set(party, n);
+                }
+                partyDivisors.set(party, divisor);
+            }
+            if (districtsFit()) {
+                return new Map(districts.map(district =>
+                    [district, NumberCounter.fromEntries(seats.get(district)!).pos]));
+            }
+        }
+        throw new AttributionFailure("The biproportional apportionment did not converge");
+    };
+}
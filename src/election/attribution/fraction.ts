@@ -0,0 +1,173 @@
+// bigint literals would require targeting ES2020
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TEN = BigInt(10);
+
+function gcd(a: bigint, b: bigint): bigint {
+    if (a < ZERO) {
+        a = -a;
+    }
+    if (b < ZERO) {
+        b = -b;
+    }
+    while (b !== ZERO) {
+        [a, b] = [b, a % b];
+    }
+    return a;
+}
+
+/**
+ * An immutable rational number, as a fraction of two bigints,
+ * used by the attributions' exact arithmetic mode.
+ *
+ * The fraction is always in lowest terms, with a non-negative denominator.
+ * A zero denominator represents a positive infinity, which compares above all finite values
+ * and equal to itself, but which should not be used in other operations.
+ */
+export class Fraction {
+    private constructor(
+        public readonly numerator: bigint,
+        public readonly denominator: bigint,
+    ) { }
+
+    static of(numerator: bigint, denominator = ONE): Fraction {
+        if (denominator < ZERO) {
+            numerator = -numerator;
+            denominator = -denominator;
+        }
+        const divisor = gcd(numerator, denominator);
+        if (divisor > ONE) {
+            numerator /= divisor;
+            denominator /= divisor;
+        }
+        return new Fraction(numerator, denominator);
+    }
+
+    static readonly ZERO = new Fraction(ZERO, ONE);
+    static readonly INFINITY = new Fraction(ONE, ZERO);
+
+    /**
+     * Converts a finite number to a fraction.
+     *
+     * Integers are converted exactly. Other numbers are converted
+     * through their shortest decimal representation, so that 1.4 gives 7/5.
+     */
+    static from(value: number | Fraction): Fraction {
+        if (value instanceof Fraction) {
+            return value;
+        }
+        if (!Number.isFinite(value)) {
+            throw new RangeError(`Cannot convert ${value} to a fraction`);
+        }
+        if (Number.isInteger(value)) {
+            return new Fraction(BigInt(value), ONE);
+        }
+        const [mantissa, exponent = "0"] = String(value).split("e") as [string, string?];
+        const [integerPart, fractionalPart = ""] = mantissa.split(".") as [string, string?];
+        let numerator = BigInt(integerPart + fractionalPart);
+        let denominator = TEN ** BigInt(fractionalPart.length);
+        const exp = Number(exponent);
+        if (exp > 0) {
+            numerator *= TEN ** BigInt(exp);
+        } else {
+            denominator *= TEN ** BigInt(-exp);
+        }
+        return Fraction.of(numerator, denominator);
+    }
+
+    /**
+     * Returns the exact sum of the values, which may differ from their floating-point sum.
+     */
+    static sum(values: Iterable<number | Fraction>): Fraction {
+        let total = Fraction.ZERO;
+        for (const value of values) {
+            total = total.add(value);
+        }
+        return total;
+    }
+
+    add(other: number | Fraction): Fraction {
+        const o = Fraction.from(other);
+        return Fraction.of(this.numerator * o.denominator + o.numerator * this.denominator, this.denominator * o.denominator);
+    }
+
+    sub(other: number | Fraction): Fraction {
+        const o = Fraction.from(other);
+        return Fraction.of(this.numerator * o.denominator - o.numerator * this.denominator, this.denominator * o.denominator);
+    }
+
+    mul(other: number | Fraction): Fraction {
+        const o = Fraction.from(other);
+        return Fraction.of(this.numerator * o.numerator, this.denominator * o.denominator);
+    }
+
+    div(other: number | Fraction): Fraction {
+        const o = Fraction.from(other);
+        if (o.numerator === ZERO) {
+            throw new RangeError("Division by zero");
+        }
+        return Fraction.of(this.numerator * o.denominator, this.denominator * o.numerator);
+    }
+
+    /**
+     * Returns the largest integer lower than or equal to the fraction.
+     */
+    floor(): bigint {
+        const quotient = this.numerator / this.denominator;
+        return (this.numerator < ZERO && quotient * this.denominator !== this.numerator) ? quotient - ONE : quotient;
+    }
+
+    /**
+     * Returns a negative number, zero, or a positive number,
+     * when the fraction is respectively lower than, equal to, or greater than the other.
+     */
+    compare(other: number | Fraction): number {
+        const o = Fraction.from(other);
+        const diff = this.numerator * o.denominator - o.numerator * this.denominator;
+        return diff < ZERO ? -1 : diff > ZERO ? 1 : 0;
+    }
+
+    static compare(a: Fraction, b: Fraction): number {
+        return a.compare(b);
+    }
+
+    /**
+     * Returns the closest number to the fraction, give or take rounding.
+     */
+    toNumber(): number {
+        if (this.denominator === ZERO) {
+            return Infinity;
+        }
+        const integer = this.floor();
+        return Number(integer) + Number(this.numerator - integer * this.denominator) / Number(this.denominator);
+    }
+
+    toString(): string {
+        return `${this.numerator}/${this.denominator}`;
+    }
+}
+
+/**
+ * Returns the rank of the value of each key among the distinct values, in increasing order.
+ * Comparing the ranks as numbers gives the same result as comparing the fractions exactly,
+ * which allows passing them to the functions taking number values.
+ */
+export function fractionRanks<K>(values: ReadonlyMap<K, Fraction>): Map<K, number> {
+    const sorted = [...values.values()].sort(Fraction.compare);
+    const ranks = new Map<K, number>();
+    for (const [key, value] of values) {
+        // the index of the first value equal to this one
+        let low = 0;
+        let high = sorted.length - 1;
+        while (low < high) {
+            const mid = (low + high) >> 1;
+            if (sorted[mid]!.compare(value) < 0) {
+                low = mid + 1;
+            } else {
+                high = mid;
+            }
+        }
+        ranks.set(key, low);
+    }
+    return ranks;
+}
@@ -1,22 +1,28 @@
-import { max } from "@gouvernathor/python";
 import { type Counter, NumberCounter } from "@gouvernathor/python/collections";
-import { type Simple } from "../tally";
+import { type Simple, type WithTurnout } from "../tally";
 import { type Attribution, AttributionFailure, type HasNSeats } from "../attribution";
+import { defaultTieBreak, highest, simpleContext, type TieBreak } from "./tieBreak";
+import { tracedTieBreak, type TraceOption } from "./trace";
 
 /**
  * Creates an attribution method in which
  * the party with the most votes wins all the seats.
  *
  * Will throw an AttributionFailure error if no party wins any vote.
+ *
+ * @param tieBreak The tie-breaking policy between the parties having the most votes.
+ * Defaults to favoring the party appearing last in the tally.
  */
 export function plurality<Party>(
-    { nSeats }: {
+    { nSeats, tieBreak = defaultTieBreak }: {
         nSeats: number,
+        tieBreak?: TieBreak<Party>,
     }
 ): Attribution<Party, Simple<Party>> & HasNSeats {
-    const attrib = (votes: Simple<Party>, _rest = {}): Counter<Party, number> => {
+    const attrib = (votes: Simple<Party>, { trace }: TraceOption<Party> = {}): Counter<Party, number> => {
+        trace?.push({ kind: "scores", attribution: "plurality", scores: [...votes.entries()] });
         if (votes.size > 0) {
-            const win = max(votes.keys(), p => votes.get(p)!);
+            const win = highest([...votes.keys()].reverse(), p => votes.get(p), tracedTieBreak(tieBreak, trace), simpleContext(votes));
 
             if (votes.get(win) > 0) {
                 return NumberCounter.fromEntries([[win, nSeats]]);
@@ -34,19 +40,41 @@ export function plurality<Party>(
  *
  * If not party reaches the threshold, the contingency attribution method is called,
  * or if no contingency is provided, an AttributionFailure error is thrown.
+ *
+ * @param thresholdOf What the threshold is a share of.
+ * - "validBallots" (the default) is the total of the tally.
+ * - "ballotsCast" also counts the blank and null ballots.
+ * - "registered" is the number of registered voters, counting the abstentions.
+ * The last two require the tally to record its turnout, as the withTurnout voting methods do.
+ * @param tieBreak The tie-breaking policy between the parties having the most votes,
+ * which only matters with a threshold below one half.
+ * Defaults to favoring the party appearing last in the tally.
  */
 export function superMajority<Party>(
-    { nSeats, threshold, contingency = null }: {
+    { nSeats, threshold, thresholdOf = "validBallots", contingency = null, tieBreak = defaultTieBreak }: {
         nSeats: number,
         threshold: number,
+        thresholdOf?: "validBallots" | "ballotsCast" | "registered",
         contingency?: Attribution<Party, Simple<Party>> | null,
+        tieBreak?: TieBreak<Party>,
     }
 ): Attribution<Party, Simple<Party>> & HasNSeats {
-    const attrib = (votes: Simple<Party>, rest = {}): Counter<Party, number> => {
+    const share = (votes: Simple<Party> & Partial<WithTurnout>, n: number): number => {
+        if (thresholdOf === "validBallots") {
+            return n / votes.total;
+        }
+        if (votes.turnout === undefined) {
+            throw new Error(`The tally does not record the turnout, required for a threshold of the ${thresholdOf}`);
+        }
+        return thresholdOf === "registered" ? votes.turnout.ofRegistered(n) : votes.turnout.ofBallotsCast(n);
+    };
+
+    const attrib = (votes: Simple<Party>, rest: TraceOption<Party> = {}): Counter<Party, number> => {
+        rest.trace?.push({ kind: "scores", attribution: "superMajority", scores: [...votes.entries()] });
         if (votes.size > 0) {
-            const win = max(votes.keys(), p => votes.get(p)!);
+            const win = highest([...votes.keys()].reverse(), p => votes.get(p), tracedTieBreak(tieBreak, rest.trace), simpleContext(votes));
 
-            if ((votes.get(win) / votes.total) > threshold) {
+            if (share(votes, votes.get(win)) > threshold) {
                 return NumberCounter.fromEntries([[win, nSeats]]);
             }
         }
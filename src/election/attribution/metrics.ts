@@ -1,8 +1,45 @@
 import { type ReadonlyCounter } from "@gouvernathor/python/collections";
 import { type Simple } from "../tally";
 
+/**
+ * A measure of how disproportionate an attribution of seats is, given the votes.
+ * The bigger, the less proportional.
+ */
 export interface DisproportionMetric<Party> {
     (p0: {votes: Simple<Party>, seats: ReadonlyCounter<Party, number>}): number;
+    /**
+     * If present, follows the value of the metric as seats are added one at a time,
+     * starting from the given attribution, in constant time per seat.
+     * The values may differ from those of the metric by floating-point rounding errors.
+     */
+    readonly incremental?: (p0: {votes: Simple<Party>, seats: ReadonlyCounter<Party, number>}) => IncrementalMetric<Party>;
+}
+
+/**
+ * The value of a metric, followed as seats are added to an attribution.
+ */
+export interface IncrementalMetric<Party> {
+    /**
+     * Adds a seat to the party, and returns the new value of the metric.
+     */
+    addSeat(party: Party): number;
+}
+
+/**
+ * Returns the share of the votes and the share of the seats of each party
+ * having won votes or seats, including the parties having won votes but no seat.
+ */
+function shares<Party>(
+    votes: Simple<Party>,
+    seats: ReadonlyCounter<Party, number>,
+): [number, number][] {
+    const allVotes = votes.total;
+    const allSeats = seats.total;
+    const parties = new Set([...votes.keys(), ...seats.keys()]);
+    return Array.from(parties, party => [
+        allVotes > 0 ? votes.get(party) / allVotes : 0,
+        allSeats > 0 ? seats.get(party) / allSeats : 0,
+    ]);
 }
 
 /**
@@ -10,6 +47,8 @@ export interface DisproportionMetric<Party> {
  * between the theoretical, (f)ra(c)tional number of seats and the allocated number of seats.
  * The bigger, the less proportional.
  *
+ * The candidates having won votes but no seat are counted.
+ *
  * Compared to a sum or mean of absolute differences of percentage,
  * this
  */
@@ -21,11 +60,242 @@ export function defaultMetric<Party>(
 ): number {
     const allVotes = votes.total;
     const allSeats = seats.total;
+    const parties = new Set([...votes.keys(), ...seats.keys()]);
     let suum = 0;
-    for (const party of seats.keys()) {
-        const partyVotes = votes.get(party)!;
-        const partySeats = seats.get(party)!;
+    for (const party of parties) {
+        const partyVotes = votes.get(party);
+        const partySeats = seats.get(party);
         suum += Math.abs(allSeats * partyVotes / allVotes - partySeats);
     }
-    return suum / seats.size;
+    return suum / parties.size;
+}
+
+/**
+ * Returns the Gallagher index, or least squares index :
+ * the square root of half the sum of the squared differences
+ * between the share of the votes and the share of the seats of each party.
+ *
+ * The result is a fraction between 0 and 1,
+ * to be multiplied by 100 to get the usual value in percentage points.
+ */
+export function gallagherIndex<Party>(
+    { votes, seats }: {
+        votes: Simple<Party>,
+        seats: ReadonlyCounter<Party, number>,
+    }
+): number {
+    let suum = 0;
+    for (const [voteShare, seatShare] of shares(votes, seats)) {
+        suum += (voteShare - seatShare) ** 2;
+    }
+    return Math.sqrt(suum / 2);
+}
+gallagherIndex.incremental = <Party>(
+    { votes, seats }: {
+        votes: Simple<Party>,
+        seats: ReadonlyCounter<Party, number>,
+    }
+): IncrementalMetric<Party> => {
+    const allVotes = votes.total;
+    const partySeats = new Map(seats);
+    let allSeats = seats.total;
+    // the sums of the squared vote shares, of the vote shares times the seats, and of the squared seats
+    let sumVotes2 = 0;
+    let sumVotesSeats = 0;
+    let sumSeats2 = 0;
+    for (const party of new Set([...votes.keys(), ...seats.keys()])) {
+        const voteShare = votes.get(party) / allVotes;
+        sumVotes2 += voteShare ** 2;
+        sumVotesSeats += voteShare * seats.get(party);
+        sumSeats2 += seats.get(party) ** 2;
+    }
+    return {
+        addSeat(party) {
+            const s = partySeats.get(party) ?? 0;
+            partySeats.set(party, s + 1);
+            allSeats++;
+            sumVotesSeats += votes.get(party) / allVotes;
+            sumSeats2 += 2 * s + 1;
+            const suum = sumVotes2 - 2 * sumVotesSeats / allSeats + sumSeats2 / allSeats ** 2;
+            return Math.sqrt(Math.max(0, suum) / 2);
+        },
+    };
+};
+
+/**
+ * Returns the Loosemore–Hanby index :
+ * half the sum of the absolute differences
+ * between the share of the votes and the share of the seats of each party.
+ *
+ * It is the share of the seats which would need to change hands to reach perfect proportionality,
+ * as a fraction between 0 and 1.
+ */
+export function loosemoreHanbyIndex<Party>(
+    { votes, seats }: {
+        votes: Simple<Party>,
+        seats: ReadonlyCounter<Party, number>,
+    }
+): number {
+    let suum = 0;
+    for (const [voteShare, seatShare] of shares(votes, seats)) {
+        suum += Math.abs(voteShare - seatShare);
+    }
+    return suum / 2;
+}
+
+/**
+ * Returns the Rae index :
+ * the mean of the absolute differences
+ * between the share of the votes and the share of the seats of each party.
+ *
+ * All the parties having won votes or seats are counted,
+ * unlike in Rae's original definition which excluded the parties below .5% of the votes.
+ * That makes the index depend on the number of small parties.
+ */
+export function raeIndex<Party>(
+    { votes, seats }: {
+        votes: Simple<Party>,
+        seats: ReadonlyCounter<Party, number>,
+    }
+): number {
+    const partyShares = shares(votes, seats);
+    let suum = 0;
+    for (const [voteShare, seatShare] of partyShares) {
+        suum += Math.abs(voteShare - seatShare);
+    }
+    return suum / partyShares.length;
+}
+
+/**
+ * Returns the Sainte-Laguë index, or chi-squared index :
+ * the sum, for each party, of the squared difference
+ * between its share of the seats and its share of the votes,
+ * divided by its share of the votes.
+ *
+ * The Sainte-Laguë (or Webster) method minimizes that index.
+ * It is infinite when a party wins seats without having won votes.
+ */
+export function sainteLagueIndex<Party>(
+    { votes, seats }: {
+        votes: Simple<Party>,
+        seats: ReadonlyCounter<Party, number>,
+    }
+): number {
+    let suum = 0;
+    for (const [voteShare, seatShare] of shares(votes, seats)) {
+        if (seatShare > 0 || voteShare > 0) {
+            suum += (seatShare - voteShare) ** 2 / voteShare;
+        }
+    }
+    return suum;
+}
+sainteLagueIndex.incremental = <Party>(
+    { votes, seats }: {
+        votes: Simple<Party>,
+        seats: ReadonlyCounter<Party, number>,
+    }
+): IncrementalMetric<Party> => {
+    // the index is the sum of the squared seats divided by the vote shares,
+    // divided by the squared number of seats, minus 1
+    const allVotes = votes.total;
+    const partySeats = new Map(seats);
+    let allSeats = seats.total;
+    let sumSeats2Votes = 0;
+    let seatsWithoutVotes = 0;
+    for (const [party, s] of seats) {
+        const voteShare = votes.get(party) / allVotes;
+        if (voteShare > 0) {
+            sumSeats2Votes += s ** 2 / voteShare;
+        } else if (s > 0) {
+            seatsWithoutVotes++;
+        }
+    }
+    return {
+        addSeat(party) {
+            const s = partySeats.get(party) ?? 0;
+            partySeats.set(party, s + 1);
+            allSeats++;
+            const voteShare = votes.get(party) / allVotes;
+            if (voteShare > 0) {
+                sumSeats2Votes += (2 * s + 1) / voteShare;
+            } else {
+                seatsWithoutVotes++;
+            }
+            if (seatsWithoutVotes > 0) {
+                return Infinity;
+            }
+            return Math.max(0, sumSeats2Votes / allSeats ** 2 - 1);
+        },
+    };
+};
+
+/**
+ * Returns the D'Hondt index :
+ * the highest ratio, among the parties, between the share of the seats and the share of the votes,
+ * in other words the advantage ratio of the most over-represented party.
+ *
+ * The D'Hondt (or Jefferson) method minimizes that index. It is at least 1 when seats are attributed,
+ * and is infinite when a party wins seats without having won votes.
+ */
+export function dHondtIndex<Party>(
+    { votes, seats }: {
+        votes: Simple<Party>,
+        seats: ReadonlyCounter<Party, number>,
+    }
+): number {
+    let maxRatio = 0;
+    for (const [voteShare, seatShare] of shares(votes, seats)) {
+        if (seatShare > 0) {
+            maxRatio = Math.max(maxRatio, seatShare / voteShare);
+        }
+    }
+    return maxRatio;
+}
+dHondtIndex.incremental = <Party>(
+    { votes, seats }: {
+        votes: Simple<Party>,
+        seats: ReadonlyCounter<Party, number>,
+    }
+): IncrementalMetric<Party> => {
+    // the index is the highest ratio between the seats and the vote share, divided by the number of seats
+    const allVotes = votes.total;
+    const partySeats = new Map(seats);
+    let allSeats = seats.total;
+    let maxRatio = 0;
+    for (const [party, s] of seats) {
+        if (s > 0) {
+            maxRatio = Math.max(maxRatio, s / (votes.get(party) / allVotes));
+        }
+    }
+    return {
+        addSeat(party) {
+            const s = (partySeats.get(party) ?? 0) + 1;
+            partySeats.set(party, s);
+            allSeats++;
+            maxRatio = Math.max(maxRatio, s / (votes.get(party) / allVotes));
+            return maxRatio / allSeats;
+        },
+    };
+};
+
+/**
+ * Returns the effective number of parties, as defined by Laakso and Taagepera :
+ * the inverse of the sum of the squared shares of the parties.
+ *
+ * Pass the votes to get the effective number of electoral parties,
+ * or the seats to get the effective number of parliamentary parties.
+ * The result is 0 if the counter is empty.
+ *
+ * This is not a DisproportionMetric, but comparing the two values
+ * shows how much an attribution reduces the fragmentation of the votes.
+ */
+export function effectiveNumberOfParties<Party>(
+    counter: ReadonlyCounter<Party, number>,
+): number {
+    const total = counter.total;
+    let suum = 0;
+    for (const value of counter.values()) {
+        suum += (value / total) ** 2;
+    }
+    return suum > 0 ? 1 / suum : 0;
 }
@@ -1,44 +1,68 @@
-import { enumerate, max, min } from "@gouvernathor/python";
+import { enumerate, sum } from "@gouvernathor/python";
 import { type Counter, DefaultMap, NumberCounter } from "@gouvernathor/python/collections";
-import { Order } from "../tally";
+import type RNG from "@gouvernathor/rng";
+import { createRandomObj, type RandomObjParam } from "../../utils";
+import { ballotWeights, Order, Pairwise, totalWeight } from "../tally";
 import { type Attribution, AttributionFailure, type HasNSeats } from "../attribution";
+import { type PairwiseAttribution, toPairwise } from "./pairwiseFactory";
+import { droopQuota, type QuotaFunction } from "./proportionalBase";
+import { breakTie, defaultTieBreak, highest, highestN, lowest, orderContext, type TieBreak } from "./tieBreak";
+import { pairwiseStep, type RoundStep, tracedTieBreak, type TraceOption } from "./trace";
 
 /**
  * Creates an attribution method in which the party with the least votes is eliminated,
  * and its votes are redistributed to the other parties according to the voters' preferences.
- * Repeats until a party reaches a majority of the remaining votes, winning all the seats.
+ * Repeats until a party reaches a majority, winning all the seats,
+ * or until only one party remains.
  *
- * The ballots are not required to rank all the candidates.
+ * The ballots are not required to rank all the candidates :
+ * a ballot ranking none of the remaining parties is exhausted.
+ * The parties ranked first by no ballot have no votes, and are eliminated first.
+ *
+ * @param majority What the majority is computed on.
+ * - "remainingBallots" (the default) only counts the ballots which are not exhausted.
+ * - "allBallots" counts all the ballots, so that when many ballots are exhausted,
+ * the count may go on until only one party remains.
+ * @param tieBreak The tie-breaking policy between the parties having the least votes,
+ * the party it favors the least being eliminated.
+ * Defaults to eliminating the party appearing last in the tally.
  */
 export function instantRunoff<Party>(
-    { nSeats }: {
-        nSeats: number
+    { nSeats, majority = "remainingBallots", tieBreak = defaultTieBreak }: {
+        nSeats: number,
+        majority?: "remainingBallots" | "allBallots",
+        tieBreak?: TieBreak<Party>,
     }
 ): Attribution<Party, Order<Party>> & HasNSeats {
-    const attrib = (votes: Order<Party>, _rest = {}): Counter<Party, number> => {
-        const blacklisted = new Set<Party>();
-
-        const nParties = new Set(votes.flat()).size;
-        for (let pn = 0; pn < nParties; pn++) {
-            const firstPlaces = NumberCounter.fromEntries<Party>();
-            for (const ballot of votes) {
-                for (const party of ballot) {
-                    if (!blacklisted.has(party)) {
-                        firstPlaces.increment(party);
-                        break;
-                    }
+    const attrib = (votes: Order<Party>, { trace }: TraceOption<Party> = {}): Counter<Party, number> => {
+        const context = orderContext(votes);
+        const partyTieBreak = tracedTieBreak(tieBreak, trace);
+        const hopeful = new Set(votes.flat());
+        const weights = ballotWeights(votes);
+
+        for (let pn = 0; hopeful.size > 0; pn++) {
+            const firstPlaces = NumberCounter.fromEntries<Party>(Array.from(hopeful, party => [party, 0]));
+            for (const [b, ballot] of votes.entries()) {
+                const first = ballot.find(party => hopeful.has(party));
+                if (first !== undefined) {
+                    firstPlaces.increment(first, weights[b]!);
                 }
             }
 
-            const total = firstPlaces.total;
+            const total = majority === "allBallots" ? totalWeight(votes) : firstPlaces.total;
             for (const [party, score] of firstPlaces) {
-                if (score / total > .5) {
+                if (score / total > .5 || hopeful.size === 1) {
+                    trace?.push({ kind: "round", attribution: "instantRunoff", round: pn + 1,
+                        tally: [...firstPlaces.entries()], elected: [party], eliminated: [] });
                     return NumberCounter.fromEntries([[party, nSeats]]);
                 }
             }
-            blacklisted.add(min(firstPlaces.keys(), p => firstPlaces.get(p)));
+            const loser = lowest([...firstPlaces.keys()], p => firstPlaces.get(p), partyTieBreak, context);
+            trace?.push({ kind: "round", attribution: "instantRunoff", round: pn + 1,
+                tally: [...firstPlaces.entries()], elected: [], eliminated: [loser] });
+            hopeful.delete(loser);
         }
-        throw new Error("Should not happen");
+        throw new AttributionFailure("No party is ranked by any ballot");
     };
     attrib.nSeats = nSeats;
     return attrib;
@@ -48,23 +72,53 @@ export function instantRunoff<Party>(
  * Creates an attribution method in which each party receives points according
  * to the position it occupies on each ballot, and the party with the most points wins all the seats.
  *
- * Uses the Modified Borda Count, in which the least-ranked candidate gets 1 point,
- * and unranked candidates get 0 points.
- * So, the ballots are not required to rank all the candidates.
+ * The ballots are not required to rank all the candidates.
+ * With n the number of parties ranked by any ballot, and k the number of parties ranked by a ballot,
+ * the points it gives depend on the unranked option :
+ * - "modified" (the default) uses the Modified Borda Count : the k ranked parties
+ * get from k points down to 1 point, and the unranked parties get 0 points.
+ * - "pessimistic" gives the ranked parties the same points as a full ranking would,
+ * from n-1 points down to n-k points, and 0 points to the unranked parties.
+ * - "averaged" gives the ranked parties the same points as "pessimistic",
+ * and splits the remaining points, from n-k-1 down to 0, equally between the unranked parties.
+ * The three are equivalent when all the ballots rank all the parties.
+ *
+ * @param tieBreak The tie-breaking policy between the parties having the most points.
+ * Defaults to favoring the party appearing last in the tally.
  */
 export function bordaCount<Party>(
-    { nSeats }: {
-        nSeats: number
+    { nSeats, unranked = "modified", tieBreak = defaultTieBreak }: {
+        nSeats: number,
+        unranked?: "modified" | "pessimistic" | "averaged",
+        tieBreak?: TieBreak<Party>,
     }
 ): Attribution<Party, Order<Party>> & HasNSeats {
-    const attrib = (votes: Order<Party>, _rest = {}): Counter<Party, number> => {
+    const attrib = (votes: Order<Party>, { trace }: TraceOption<Party> = {}): Counter<Party, number> => {
+        const parties = new Set(votes.flat());
+        const nParties = parties.size;
         const scores = NumberCounter.fromEntries<Party>();
-        for (const ballot of votes) {
-            for (const [i, party] of enumerate(ballot.slice().reverse(), 1)) {
-                scores.increment(party, i);
+        const weights = ballotWeights(votes);
+        for (const [b, ballot] of votes.entries()) {
+            const weight = weights[b]!;
+            // the points of the last ranked party
+            const lowestPoints = unranked === "modified" ? 1 : nParties - ballot.length;
+            for (const [i, party] of enumerate(ballot.slice().reverse(), lowestPoints)) {
+                scores.increment(party, i * weight);
+            }
+            if (unranked === "averaged" && ballot.length < nParties) {
+                const ranked = new Set(ballot);
+                // the mean of the points from 0 to n-k-1
+                const points = (nParties - ballot.length - 1) / 2;
+                for (const party of parties) {
+                    if (!ranked.has(party)) {
+                        scores.increment(party, points * weight);
+                    }
+                }
             }
         }
-        return NumberCounter.fromEntries([[max(scores.keys(), p => scores.get(p)), nSeats]]);
+        trace?.push({ kind: "scores", attribution: "bordaCount", scores: [...scores.entries()] });
+        const winner = highest([...scores.keys()].reverse(), p => scores.get(p), tracedTieBreak(tieBreak, trace), orderContext(votes));
+        return NumberCounter.fromEntries([[winner, nSeats]]);
     };
     attrib.nSeats = nSeats;
     return attrib;
@@ -76,53 +130,313 @@ export function bordaCount<Party>(
  * If no party wins against all others, the attribution fails.
  *
  * Doesn't support candidates with equal ranks, due to the Order type format.
- * This implementation also doesn't support incomplete ballots.
+ * By default, a ballot ranking a candidate is considered to prefer it to the candidates it does not rank,
+ * and two candidates it does not rank are not compared by that ballot.
+ *
+ * The attribution also accepts already-computed pairwise preferences instead of ranked ballots.
+ * Whichever was passed to it is passed to the contingency in case of a standoff,
+ * so passing pairwise preferences to the attribution and taking a contingency
+ * supporting them, such as schulze or rankedPairs,
+ * avoids computing the pairwise preferences twice.
  *
+ * @param rankedOverUnranked If false, a ballot only compares the candidates it ranks,
+ * so a truncated ballot expresses no preference between a ranked and an unranked candidate.
+ * This only applies to the ranked ballots, and is not passed to the contingency,
+ * which may compute the pairwise preferences in its own way.
  * @param contingency An optional contingency attribution method to use in case of a standoff.
  * If not provided (or null), the attribution will fail with a condorcet.Standoff error,
  * which is a subclass of AttributionFailure.
  */
 export function condorcet<Party>(
-    { nSeats, contingency = null }: {
+    { nSeats, rankedOverUnranked, contingency }: {
         nSeats: number,
-        contingency?: Attribution<Party, Order<Party>> | null,
+        rankedOverUnranked?: boolean,
+        contingency?: PairwiseAttribution<Party> | null,
+    }
+): PairwiseAttribution<Party> & HasNSeats;
+export function condorcet<Party>(
+    { nSeats, rankedOverUnranked, contingency }: {
+        nSeats: number,
+        rankedOverUnranked?: boolean,
+        contingency: Attribution<Party, Order<Party>>,
+    }
+): Attribution<Party, Order<Party>> & HasNSeats;
+export function condorcet<Party>(
+    { nSeats, rankedOverUnranked = true, contingency = null }: {
+        nSeats: number,
+        rankedOverUnranked?: boolean,
+        contingency?: PairwiseAttribution<Party> | Attribution<Party, Order<Party>> | null,
+    }
+): PairwiseAttribution<Party> & HasNSeats {
+    const attrib = (votes: Order<Party> | Pairwise<Party>, rest: TraceOption<Party> = {}): Counter<Party, number> => {
+        const pairwise = toPairwise(votes, { rankedOverUnranked });
+        rest.trace?.push(pairwiseStep("condorcet", pairwise));
+
+        const win = [...pairwise.keys()].filter(party =>
+            [...pairwise.keys()].every(other => other === party
+                || pairwise.get(party).get(other) > pairwise.get(other).get(party)));
+
+        if (win.length === 0) {
+            if (contingency === null) {
+                throw new condorcet.Standoff("No Condorcet winner");
+            }
+            // the contingency only receives pairwise preferences if it was typed to accept them
+            return (contingency as PairwiseAttribution<Party>)(votes, rest);
+        }
+        const [winner] = win;
+        return NumberCounter.fromEntries([[winner!, nSeats]]);
+    };
+    attrib.nSeats = nSeats;
+    return attrib;
+}
+condorcet.Standoff = class CondorcetStandoff extends AttributionFailure {};
+
+
+/**
+ * A ballot, or a fraction of a ballot, as it goes from one candidate to another
+ * during a single transferable vote count.
+ */
+interface TransferableBallot<Party> {
+    readonly ranking: ReadonlyArray<Party>;
+    readonly weight: number;
+}
+
+/**
+ * A group of ballots transferred together to a candidate.
+ */
+type Parcel<Party> = ReadonlyArray<TransferableBallot<Party>>;
+
+/**
+ * Draws n units at random, without replacement, from groups of units of the given integer sizes,
+ * and returns the number of units drawn from each group.
+ * The units are not listed : the remaining sizes are kept in a Fenwick tree,
+ * which takes a time logarithmic in the number of groups for each unit drawn.
+ */
+function drawFromGroups(sizes: readonly number[], n: number, randomObj: RNG): number[] {
+    const nGroups = sizes.length;
+    // tree[i] is the sum of the remaining sizes of the groups from i - (i & -i) to i - 1
+    const tree = [0, ...sizes];
+    for (let i = 1; i <= nGroups; i++) {
+        const parent = i + (i & -i);
+        if (parent <= nGroups) {
+            tree[parent]! += tree[i]!;
+        }
+    }
+    let topStep = 1;
+    while (topStep * 2 <= nGroups) {
+        topStep *= 2;
     }
+
+    const drawn = Array<number>(nGroups).fill(0);
+    let remaining = sum(sizes);
+    for (let d = 0; d < n && remaining > 0; d++, remaining--) {
+        // the group containing the unit of that rank
+        let rank = Math.floor(randomObj.random() * remaining);
+        let group = 0;
+        for (let step = topStep; step > 0; step >>= 1) {
+            if (group + step <= nGroups && tree[group + step]! <= rank) {
+                group += step;
+                rank -= tree[group]!;
+            }
+        }
+        drawn[group]!++;
+        for (let i = group + 1; i <= nGroups; i += i & -i) {
+            tree[i]!--;
+        }
+    }
+    return drawn;
+}
+
+/**
+ * Creates a multi-winner attribution method in which each candidate reaching the quota is elected,
+ * and the surplus votes of the elected candidates, as well as the votes of the eliminated candidates,
+ * are transferred to the next preference on each ballot.
+ * When no candidate reaches the quota and no surplus remains to be transferred,
+ * the candidate with the least votes is eliminated.
+ *
+ * Each candidate wins at most one seat, so the candidates should be individuals rather than lists.
+ * If there are fewer candidates than seats, fewer than nSeats seats are attributed.
+ *
+ * The ballots are not required to rank all the candidates :
+ * a ballot having no remaining preference is exhausted, and set aside for the rest of the count.
+ * Ballots ranking nobody are exhausted from the start and do not count towards the quota.
+ *
+ * When several candidates are tied for elimination, the tie is broken by looking back
+ * at the previous counts, eliminating the one having had the least votes at the latest count
+ * where they differed. If they were always tied, the tieBreak policy decides,
+ * the candidate it favors the least being eliminated.
+ * It also decides between candidates reaching the quota with the same votes
+ * when there are not enough seats left for all of them.
+ *
+ * @param quota The function computing the quota from the number of valid ballots.
+ * Defaults to the Droop quota.
+ * @param transfer How the surplus of an elected candidate is transferred.
+ * - "weightedInclusiveGregory" (the default) transfers all the ballots of the candidate,
+ * each at a fraction of its current weight.
+ * - "gregory" only transfers the last parcel of ballots received by the candidate,
+ * the one which made it reach the quota, each at a fraction of its current weight.
+ * - "random" transfers whole ballots, picked at random among those of the candidate.
+ * A weighted ballot, such as an entry of an OrderProfile, counts as that many ballots,
+ * so the weights must be integers.
+ * @param recomputeQuota If true, the quota is recomputed at each count
+ * from the number of ballots which are not exhausted.
+ * Otherwise (the default), it is computed once, at the start of the count.
+ * @param tieBreak The tie-breaking policy.
+ * Defaults to favoring the candidates appearing first in the ballots.
+ *
+ * The randomization of the random transfer is based on the given parameters,
+ * in the same way as the randomize attribution.
+ */
+export function singleTransferableVote<Party>(
+    {
+        nSeats,
+        quota = droopQuota,
+        transfer = "weightedInclusiveGregory",
+        recomputeQuota = false,
+        tieBreak = defaultTieBreak,
+        ...randomParam
+    }: {
+        nSeats: number,
+        quota?: QuotaFunction,
+        transfer?: "gregory" | "weightedInclusiveGregory" | "random",
+        recomputeQuota?: boolean,
+        tieBreak?: TieBreak<Party>,
+    } & RandomObjParam
 ): Attribution<Party, Order<Party>> & HasNSeats {
-    const attrib = (votes: Order<Party>, rest = {}): Counter<Party, number> => {
-        const counts = new DefaultMap<Party, Counter<Party, number>>(() => NumberCounter.fromEntries());
-        const majority= votes.length / 2;
-
-        for (const ballot of votes) {
-            for (const [i, party1] of enumerate(ballot)) {
-                for (const party2 of ballot.slice(i + 1)) {
-                    counts.get(party1)!.increment(party2);
+    const attrib = (votes: Order<Party>, { trace }: TraceOption<Party> = {}): Counter<Party, number> => {
+        const randomObj = createRandomObj(randomParam);
+        const partyTieBreak = tracedTieBreak(tieBreak, trace);
+        const context = orderContext(votes);
+
+        const hopeful = new Set(votes.flat());
+        const elected: Party[] = [];
+        // the parcels of ballots currently held by each candidate
+        const piles = new DefaultMap<Party, Parcel<Party>[]>(() => []);
+        const tally = (party: Party) => sum(piles.get(party).flat().map(ballot => ballot.weight));
+        let exhausted = 0;
+
+        const distribute = (ballots: Iterable<TransferableBallot<Party>>) => {
+            const parcels = new DefaultMap<Party, TransferableBallot<Party>[]>(() => []);
+            for (const ballot of ballots) {
+                const next = ballot.ranking.find(party => hopeful.has(party));
+                if (next === undefined) {
+                    exhausted += ballot.weight;
+                } else {
+                    parcels.get(next).push(ballot);
                 }
             }
-        }
+            for (const [party, parcel] of parcels) {
+                piles.get(party).push(parcel);
+            }
+        };
+
+        const reweight = (ballots: Parcel<Party>, factor: number) =>
+            ballots.map(({ ranking, weight }) => ({ ranking, weight: weight * factor }));
 
-        const win = new Set(counts.keys());
-        for (const [party, partyCounter] of counts) {
-            for (const value of partyCounter.pos.values()) {
-                if (value > majority) {
-                    win.delete(party);
+        const transferSurplus = (party: Party, surplus: number, total: number) => {
+            const pile = piles.get(party);
+            switch (transfer) {
+                case "weightedInclusiveGregory": {
+                    const ballots = pile.flat();
+                    piles.set(party, [reweight(ballots, 1 - surplus / total)]);
+                    distribute(reweight(ballots, surplus / total));
+                    break;
+                }
+                case "gregory": {
+                    const lastParcel = pile.pop()!;
+                    const ratio = Math.min(1, surplus / sum(lastParcel.map(ballot => ballot.weight)));
+                    pile.push(reweight(lastParcel, 1 - ratio));
+                    distribute(reweight(lastParcel, ratio));
+                    break;
+                }
+                case "random": {
+                    const ballots = pile.flat();
+                    // a ballot of weight w counts as w ballots
+                    const drawn = drawFromGroups(ballots.map(ballot => ballot.weight), Math.floor(surplus), randomObj);
+                    piles.set(party, [ballots
+                        .map(({ ranking, weight }, b) => ({ ranking, weight: weight - drawn[b]! }))
+                        .filter(ballot => ballot.weight > 0)]);
+                    distribute(ballots
+                        .map(({ ranking }, b) => ({ ranking, weight: drawn[b]! }))
+                        .filter(ballot => ballot.weight > 0));
                     break;
                 }
             }
+        };
+
+        const weights = ballotWeights(votes);
+        if (transfer === "random" && !weights.every(weight => Number.isInteger(weight))) {
+            throw new Error("The random transfer requires integer ballot weights");
         }
+        const nBallots = totalWeight(votes);
+        distribute(votes.map((ranking, b) => ({ ranking, weight: weights[b]! })));
+        let q = quota(nBallots - exhausted, nSeats);
+
+        // the elected candidates whose surplus has yet to be transferred
+        const surpluses = new Set<Party>();
+        // the tallies of the hopeful candidates at each count, for tie-breaking
+        const history: Map<Party, number>[] = [];
 
-        if (win.size !== 1) {
-            if (win.size !== 0) {
-                throw new Error("Bad attribution");
+        while (true) {
+            if (recomputeQuota) {
+                q = quota(nBallots - exhausted, nSeats);
             }
-            if (contingency === null) {
-                throw new condorcet.Standoff("No Condorcet winner");
+            const tallies = new Map(Array.from(hopeful, party => [party, tally(party)]));
+            history.push(tallies);
+            // the elected and eliminated arrays are filled during the count
+            const step: RoundStep<Party> = { kind: "round", attribution: "singleTransferableVote", round: history.length,
+                tally: [...tallies.entries()], elected: [], eliminated: [] };
+            trace?.push(step);
+
+            const reached = highestN([...hopeful].filter(party => tallies.get(party)! >= q),
+                nSeats - elected.length, party => tallies.get(party)!, partyTieBreak, context);
+            for (const party of reached) {
+                hopeful.delete(party);
+                elected.push(party);
+                surpluses.add(party);
+            }
+            step.elected.push(...reached);
+
+            if (elected.length >= nSeats) {
+                break;
+            }
+            if (hopeful.size + elected.length <= nSeats) {
+                step.elected.push(...hopeful);
+                elected.push(...hopeful);
+                break;
+            }
+
+            if (reached.length > 0) {
+                continue;
             }
-            return contingency(votes, rest);
+
+            if (surpluses.size > 0) {
+                const party = highest([...surpluses], tally, partyTieBreak, context);
+                surpluses.delete(party);
+                const total = tally(party);
+                if (total > q) {
+                    transferSurplus(party, total - q, total);
+                }
+                continue;
+            }
+
+            let losers = [...hopeful];
+            for (const pastTallies of history.slice().reverse()) {
+                const lowest = Math.min(...losers.map(party => pastTallies.get(party)!));
+                losers = losers.filter(party => pastTallies.get(party) === lowest);
+                if (losers.length === 1) {
+                    break;
+                }
+            }
+            const loser = breakTie(losers, partyTieBreak, context).pop()!;
+            step.eliminated.push(loser);
+            hopeful.delete(loser);
+            distribute(piles.get(loser).flat());
+            piles.delete(loser);
         }
-        const [winner] = win;
-        return NumberCounter.fromEntries([[winner!, nSeats]]);
+
+        return NumberCounter.fromKeys(elected);
     };
     attrib.nSeats = nSeats;
     return attrib;
 }
-condorcet.Standoff = class CondorcetStandoff extends AttributionFailure {};
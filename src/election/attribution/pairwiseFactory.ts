@@ -0,0 +1,350 @@
+import { type Counter, NumberCounter } from "@gouvernathor/python/collections";
+import { Order, Pairwise } from "../tally";
+import { type Attribution, AttributionFailure, type HasNSeats } from "../attribution";
+import { breakTie, defaultTieBreak, highest, pairwiseContext, type TieBreak } from "./tieBreak";
+import { pairwiseStep, tracedTieBreak, type TraceOption } from "./trace";
+
+/**
+ * An attribution method based upon the pairwise preferences between the parties.
+ *
+ * It accepts either ranked ballots, from which the pairwise preferences are computed,
+ * or the already-computed pairwise preferences.
+ * As such, it can be passed as the contingency of a condorcet attribution.
+ */
+export interface PairwiseAttribution<Party> extends Attribution<Party, Order<Party> | Pairwise<Party>> {}
+
+/**
+ * Returns the pairwise preferences, computing them if ranked ballots are passed.
+ * The options are those of Pairwise.fromOrder.
+ */
+export function toPairwise<Party>(
+    votes: Order<Party> | Pairwise<Party>,
+    options: Parameters<typeof Pairwise.fromOrder>[1] = {},
+): Pairwise<Party> {
+    if (Array.isArray(votes)) {
+        return Pairwise.fromOrder(votes as Order<Party>, options);
+    }
+    return votes as Pairwise<Party>;
+}
+
+/**
+ * How to measure the strength of the defeat of b by a.
+ * - "margin" is the number of ballots preferring a to b,
+ *   minus the number of ballots preferring b to a.
+ * - "winningVotes" is the number of ballots preferring a to b.
+ * Either way, the strength is 0 when a does not beat b.
+ */
+export type DefeatStrength = "margin" | "winningVotes";
+
+function defeatStrength<Party>(
+    pairwise: Pairwise<Party>,
+    a: Party,
+    b: Party,
+    strength: DefeatStrength,
+): number {
+    const ab = pairwise.get(a).get(b);
+    const ba = pairwise.get(b).get(a);
+    if (ab <= ba) {
+        return 0;
+    }
+    switch (strength) {
+        case "margin":
+            return ab - ba;
+        case "winningVotes":
+            return ab;
+    }
+}
+
+/**
+ * Generic implementation for the methods which elect the candidate(s)
+ * with the best value of a score.
+ *
+ * @param name The name of the attribution method, as recorded in the trace.
+ * @param score The function computing the score of each party, from the pairwise preferences.
+ * The highest-scoring party wins all the seats.
+ */
+function pairwiseScoreAttribution<Party>(
+    { name, nSeats, score, tieBreak }: {
+        name: string,
+        nSeats: number,
+        score: (pairwise: Pairwise<Party>, candidates: readonly Party[]) => Map<Party, number>,
+        tieBreak: TieBreak<Party>,
+    }
+): PairwiseAttribution<Party> & HasNSeats {
+    const attrib = (votes: Order<Party> | Pairwise<Party>, { trace }: TraceOption<Party> = {}): Counter<Party, number> => {
+        const pairwise = toPairwise(votes);
+        trace?.push(pairwiseStep(name, pairwise));
+        const candidates = [...pairwise.keys()];
+        if (candidates.length === 0) {
+            throw new AttributionFailure("No party was ranked");
+        }
+        const scores = score(pairwise, candidates);
+        trace?.push({ kind: "scores", attribution: name, scores: [...scores.entries()] });
+
+        const winner = highest(candidates, party => scores.get(party)!,
+            tracedTieBreak(tieBreak, trace), pairwiseContext(votes));
+        return NumberCounter.fromEntries([[winner, nSeats]]);
+    };
+    attrib.nSeats = nSeats;
+    return attrib;
+}
+
+/**
+ * Creates an attribution method implementing the Schulze method,
+ * in which a party beats another if the strongest path of pairwise defeats
+ * going from the former to the latter is stronger than the strongest path going the other way.
+ * The party which is not beaten by any other party wins all the seats.
+ *
+ * In case there are several such parties, the tie is broken by the tieBreak policy,
+ * which defaults to favoring the parties appearing first in the ballots.
+ *
+ * @param strength How to measure the strength of a pairwise defeat, defaults to the margin.
+ */
+export function schulze<Party>(
+    { nSeats, strength = "margin", tieBreak = defaultTieBreak }: {
+        nSeats: number,
+        strength?: DefeatStrength,
+        tieBreak?: TieBreak<Party>,
+    }
+): PairwiseAttribution<Party> & HasNSeats {
+    return pairwiseScoreAttribution({
+        name: "schulze",
+        nSeats,
+        tieBreak,
+        score: (pairwise, candidates) => {
+            const paths = new Map(candidates.map(a => [a, new Map(candidates.map(b =>
+                [b, a === b ? 0 : defeatStrength(pairwise, a, b, strength)]))]));
+
+            for (const i of candidates) {
+                const pathsFromI = paths.get(i)!;
+                for (const j of candidates) {
+                    if (i === j) {
+                        continue;
+                    }
+                    const pathsFromJ = paths.get(j)!;
+                    for (const k of candidates) {
+                        if (i === k || j === k) {
+                            continue;
+                        }
+                        pathsFromJ.set(k, Math.max(pathsFromJ.get(k)!,
+                            Math.min(pathsFromJ.get(i)!, pathsFromI.get(k)!)));
+                    }
+                }
+            }
+
+            // 1 for the parties beaten by no other party, 0 for the others
+            return new Map(candidates.map(a => [a,
+                +candidates.every(b => paths.get(a)!.get(b)! >= paths.get(b)!.get(a)!)]));
+        },
+    });
+}
+
+/**
+ * Creates an attribution method implementing the Ranked Pairs method, or Tideman method.
+ * The pairwise defeats are sorted from the strongest to the weakest,
+ * and each is locked in unless it would create a cycle with those already locked in.
+ * The party which is not beaten by any locked-in defeat wins all the seats.
+ *
+ * Defeats of equal strength, as well as parties equally unbeaten,
+ * are ordered following a tie-breaking ranking of the parties, given by the tieBreak policy,
+ * which defaults to favoring the parties appearing first in the ballots.
+ *
+ * @param strength How to measure the strength of a pairwise defeat, defaults to the margin.
+ */
+export function rankedPairs<Party>(
+    { nSeats, strength = "margin", tieBreak = defaultTieBreak }: {
+        nSeats: number,
+        strength?: DefeatStrength,
+        tieBreak?: TieBreak<Party>,
+    }
+): PairwiseAttribution<Party> & HasNSeats {
+    const attrib = (votes: Order<Party> | Pairwise<Party>, { trace }: TraceOption<Party> = {}): Counter<Party, number> => {
+        const pairwise = toPairwise(votes);
+        trace?.push(pairwiseStep("rankedPairs", pairwise));
+        const candidates = [...pairwise.keys()];
+        if (candidates.length === 0) {
+            throw new AttributionFailure("No party was ranked");
+        }
+        const partyTieBreak = tracedTieBreak(tieBreak, trace);
+        const context = pairwiseContext(votes);
+
+        const defeats: [Party, Party, number][] = [];
+        for (const a of candidates) {
+            for (const b of candidates) {
+                const value = defeatStrength(pairwise, a, b, strength);
+                if (value > 0) {
+                    defeats.push([a, b, value]);
+                }
+            }
+        }
+        // the tie-breaking ranking only involves the parties of the defeats of equal strength
+        const nDefeatsByValue = NumberCounter.fromKeys(defeats.map(([_a, _b, value]) => value));
+        const tiedParties = new Set(defeats
+            .filter(([_a, _b, value]) => nDefeatsByValue.get(value) > 1)
+            .flatMap(([a, b]) => [a, b]));
+        const tieBreakRanks = new Map(breakTie(candidates.filter(party => tiedParties.has(party)), partyTieBreak, context)
+            .map((party, i) => [party, i]));
+        defeats.sort(([a1, b1, value1], [a2, b2, value2]) =>
+            (value2 - value1)
+            || (tieBreakRanks.get(a1)! - tieBreakRanks.get(a2)!)
+            || (tieBreakRanks.get(b2)! - tieBreakRanks.get(b1)!));
+
+        // the locked-in defeats, from each winner to its losers
+        const locked = new Map(candidates.map(party => [party, new Set<Party>()]));
+        const reaches = (from: Party, to: Party): boolean => {
+            const seen = new Set<Party>();
+            const stack = [from];
+            while (stack.length > 0) {
+                const party = stack.pop()!;
+                if (party === to) {
+                    return true;
+                }
+                if (!seen.has(party)) {
+                    seen.add(party);
+                    stack.push(...locked.get(party)!);
+                }
+            }
+            return false;
+        };
+        for (const [winner, loser] of defeats) {
+            if (!reaches(loser, winner)) {
+                locked.get(winner)!.add(loser);
+            }
+        }
+
+        const beaten = new Set([...locked.values()].flatMap(losers => [...losers]));
+        const [winner] = breakTie(candidates.filter(party => !beaten.has(party)), partyTieBreak, context);
+        return NumberCounter.fromEntries([[winner!, nSeats]]);
+    };
+    attrib.nSeats = nSeats;
+    return attrib;
+}
+
+/**
+ * Creates an attribution method implementing the Copeland method,
+ * in which each party scores a point for each other party it beats,
+ * and the party with the most points wins all the seats.
+ *
+ * In case of a tie in points, the tie is broken by the tieBreak policy,
+ * which defaults to favoring the parties appearing first in the ballots.
+ *
+ * @param tieScore The points scored for each pairwise tie, defaults to 1/2.
+ * The original Copeland method gives 0, the Llull method gives 1.
+ */
+export function copeland<Party>(
+    { nSeats, tieScore = .5, tieBreak = defaultTieBreak }: {
+        nSeats: number,
+        tieScore?: number,
+        tieBreak?: TieBreak<Party>,
+    }
+): PairwiseAttribution<Party> & HasNSeats {
+    return pairwiseScoreAttribution({
+        name: "copeland",
+        nSeats,
+        tieBreak,
+        score: (pairwise, candidates) => new Map(candidates.map(a => {
+            let points = 0;
+            for (const b of candidates) {
+                if (a !== b) {
+                    const ab = pairwise.get(a).get(b);
+                    const ba = pairwise.get(b).get(a);
+                    if (ab > ba) {
+                        points++;
+                    } else if (ab === ba) {
+                        points += tieScore;
+                    }
+                }
+            }
+            return [a, points];
+        })),
+    });
+}
+
+/**
+ * Creates an attribution method implementing the Minimax method, or Simpson-Kramer method,
+ * in which the party whose worst pairwise defeat is the weakest wins all the seats.
+ *
+ * In case of a tie, the tie is broken by the tieBreak policy,
+ * which defaults to favoring the parties appearing first in the ballots.
+ *
+ * @param strength How to measure the strength of a pairwise defeat, defaults to the margin.
+ * The additional "pairwiseOpposition" value measures the opposition to a party
+ * as the number of ballots preferring the other party, whether or not it is a defeat.
+ */
+export function minimax<Party>(
+    { nSeats, strength = "margin", tieBreak = defaultTieBreak }: {
+        nSeats: number,
+        strength?: DefeatStrength | "pairwiseOpposition",
+        tieBreak?: TieBreak<Party>,
+    }
+): PairwiseAttribution<Party> & HasNSeats {
+    return pairwiseScoreAttribution({
+        name: "minimax",
+        nSeats,
+        tieBreak,
+        score: (pairwise, candidates) => new Map(candidates.map(a => [a, -Math.max(0,
+            ...candidates.filter(b => b !== a).map(b => strength === "pairwiseOpposition" ?
+                pairwise.get(b).get(a) :
+                defeatStrength(pairwise, b, a, strength)))])),
+    });
+}
+
+/**
+ * Creates an attribution method implementing the Kemeny-Young method,
+ * in which the ranking of the parties which agrees with the most pairwise preferences is computed,
+ * and the party on top of that ranking wins all the seats.
+ *
+ * In case several parties top optimal rankings, the tie is broken by the tieBreak policy,
+ * which defaults to favoring the parties appearing first in the ballots.
+ *
+ * The computation takes time and memory exponential in the number of parties,
+ * so this method is not suited for more than about twenty parties.
+ */
+export function kemenyYoung<Party>(
+    { nSeats, tieBreak = defaultTieBreak }: {
+        nSeats: number,
+        tieBreak?: TieBreak<Party>,
+    }
+): PairwiseAttribution<Party> & HasNSeats {
+    return pairwiseScoreAttribution({
+        name: "kemenyYoung",
+        nSeats,
+        tieBreak,
+        score: (pairwise, candidates) => {
+            const n = candidates.length;
+            if (n > 24) {
+                throw new Error("Too many parties for the Kemeny-Young method");
+            }
+            const full = (1 << n) - 1;
+
+            // the agreement gained by ranking the party i right after the parties in the set s
+            const gain = (s: number, i: number) => {
+                const a = candidates[i]!;
+                let value = 0;
+                for (let j = 0; j < n; j++) {
+                    if (j !== i && !(s & (1 << j))) {
+                        value += pairwise.get(a).get(candidates[j]!);
+                    }
+                }
+                return value;
+            };
+
+            // the best agreement achievable for ranking the remaining parties,
+            // the parties in the set having already been ranked
+            const best = new Float64Array(full + 1);
+            for (let s = full - 1; s >= 0; s--) {
+                let value = -Infinity;
+                for (let i = 0; i < n; i++) {
+                    if (!(s & (1 << i))) {
+                        value = Math.max(value, gain(s, i) + best[s | (1 << i)]!);
+                    }
+                }
+                best[s] = value;
+            }
+
+            // 1 for the parties topping an optimal ranking, 0 for the others
+            return new Map(candidates.map((party, i) =>
+                [party, +(gain(0, i) + best[1 << i]! === best[0])]));
+        },
+    });
+}
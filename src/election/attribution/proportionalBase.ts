@@ -1,7 +1,10 @@
 import { NumberCounter, type Counter } from "@gouvernathor/python/collections";
 import { type Simple } from "../tally";
-import { type Attribution, type HasNSeats } from "../attribution";
+import { type Attribution, type HasNSeats, type InitialSeatsOption } from "../attribution";
+import { Fraction } from "./fraction";
 import { defaultMetric, type DisproportionMetric } from "./metrics";
+import { breakTie, defaultTieBreak, simpleContext, type TieBreak } from "./tieBreak";
+import { tracedTieBreak, type TraceOption } from "./trace";
 
 /**
  * An attribution method that allocates seats proportionally
@@ -27,53 +30,327 @@ export interface RankIndexMethod<Party> extends Proportional<Party> {};
  */
 export interface RankIndexFunction {
     (t: number, a: number): number;
+    /**
+     * The same function computed in exact rational arithmetic,
+     * used by the attributions in exact mode.
+     */
+    readonly exact?: ExactRankIndexFunction;
 };
 
+/**
+ * A rank-index function computed in exact rational arithmetic.
+ * It may return Fraction.INFINITY.
+ *
+ * When the rank-index values are irrational, it may instead return
+ * an increasing function of them, for instance their squares,
+ * in which case toNumber converts those back to the rank-index values.
+ */
+export interface ExactRankIndexFunction {
+    (t: Fraction, a: number): Fraction;
+    readonly toNumber?: (v: Fraction) => number;
+}
+
+/**
+ * How the rank-index values of the parties are computed and compared,
+ * in floating-point or in exact arithmetic.
+ */
+interface RankIndexArithmetic<Party> {
+    value(party: Party, a: number): unknown;
+    compare(v1: unknown, v2: unknown): number;
+    toNumber(v: unknown): number;
+}
+
+function rankIndexArithmetic<Party>(
+    votes: Simple<Party>,
+    rankIndexFunction: RankIndexFunction,
+    exact: boolean,
+): RankIndexArithmetic<Party> {
+    const allVotes = votes.total;
+    if (exact) {
+        const exactFunction = rankIndexFunction.exact;
+        if (exactFunction === undefined) {
+            throw new Error("The rank-index function has no exact version");
+        }
+        const fractions = new Map([...votes.entries()].map(([party, v]) => [party, Fraction.from(v).div(allVotes)]));
+        const toNumber = exactFunction.toNumber ?? (v => v.toNumber());
+        return {
+            value: (party, a) => exactFunction(fractions.get(party)!, a),
+            compare: (v1, v2) => (v1 as Fraction).compare(v2 as Fraction),
+            toNumber: v => toNumber(v as Fraction),
+        };
+    }
+    const fractions = new Map([...votes.entries()].map(([party, v]) => [party, v / allVotes]));
+    return {
+        value: (party, a) => rankIndexFunction(fractions.get(party)!, a),
+        compare: (v1, v2) => v1 === v2 ? 0 : (v1 as number) - (v2 as number),
+        toNumber: v => v as number,
+    };
+}
+
+/**
+ * Returns a new counter of the initial seats,
+ * checking that they do not exceed the number of seats to allocate.
+ */
+export function initialSeatsCounter<Party>(
+    initialSeats: InitialSeatsOption<Party>["initialSeats"],
+    nSeats: number,
+): Counter<Party, number> {
+    const seats = NumberCounter.fromEntries<Party>(initialSeats?.pos);
+    if (seats.total > nSeats) {
+        throw new Error(`There are more initial seats (${seats.total}) than seats to allocate (${nSeats})`);
+    }
+    return seats;
+}
+
+interface QueueEntry<Party> {
+    readonly party: Party;
+    readonly value: unknown;
+    /**
+     * Between equal values, the entry with the highest order comes first.
+     */
+    readonly order: number;
+}
+
+/**
+ * A priority queue of the parties, by decreasing rank-index value.
+ *
+ * Between equal values, the initial parties come in reverse order of the tally,
+ * and the parties whose value was updated come last, the oldest update first.
+ */
+class RankIndexQueue<Party> {
+    private readonly heap: QueueEntry<Party>[] = [];
+    private lastOrder = 0;
+
+    constructor(
+        private readonly compare: RankIndexArithmetic<Party>["compare"],
+        values: Iterable<readonly [Party, unknown]>,
+    ) {
+        let order = 0;
+        for (const [party, value] of values) {
+            this.restore({ party, value, order: order++ });
+        }
+    }
+
+    peek(): QueueEntry<Party> | undefined {
+        return this.heap[0];
+    }
+
+    /**
+     * Adds a party whose value was updated, after the other parties of the same value.
+     */
+    push(party: Party, value: unknown): void {
+        this.restore({ party, value, order: --this.lastOrder });
+    }
+
+    /**
+     * Adds back an entry taken out of the queue, in the same place.
+     */
+    restore(entry: QueueEntry<Party>): void {
+        const heap = this.heap;
+        let i = heap.push(entry) - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (!this.before(heap[i]!, heap[parent]!)) {
+                break;
+            }
+            [heap[i], heap[parent]] = [heap[parent]!, heap[i]!];
+            i = parent;
+        }
+    }
+
+    pop(): QueueEntry<Party> | undefined {
+        const heap = this.heap;
+        const top = heap[0];
+        const last = heap.pop();
+        if (top === undefined || last === undefined || heap.length === 0) {
+            return top;
+        }
+        heap[0] = last;
+        let i = 0;
+        while (true) {
+            let first = i;
+            for (const child of [2 * i + 1, 2 * i + 2]) {
+                if (child < heap.length && this.before(heap[child]!, heap[first]!)) {
+                    first = child;
+                }
+            }
+            if (first === i) {
+                return top;
+            }
+            [heap[i], heap[first]] = [heap[first]!, heap[i]!];
+            i = first;
+        }
+    }
+
+    /**
+     * Takes out the entries having the same, highest, value, in order.
+     */
+    popTied(): QueueEntry<Party>[] {
+        const top = this.pop();
+        if (top === undefined) {
+            return [];
+        }
+        const tied = [top];
+        while (this.heap.length > 0 && this.compare(this.heap[0]!.value, top.value) === 0) {
+            tied.push(this.pop()!);
+        }
+        return tied;
+    }
+
+    private before(a: QueueEntry<Party>, b: QueueEntry<Party>): boolean {
+        const c = this.compare(a.value, b.value);
+        return c > 0 || (c === 0 && a.order > b.order);
+    }
+}
+
+/**
+ * Takes the most deserving party out of the queue,
+ * breaking the tie between the parties having the highest rank-index value, if any.
+ */
+function popMostDeserving<Party>(
+    queue: RankIndexQueue<Party>,
+    votes: Simple<Party>,
+    tieBreak: TieBreak<Party>,
+): QueueEntry<Party> | undefined {
+    const tied = queue.popTied();
+    if (tied.length <= 1) {
+        return tied[0];
+    }
+    const [winner] = tieBreak(tied.map(entry => entry.party), simpleContext(votes));
+    let winnerEntry: QueueEntry<Party> | undefined;
+    for (const entry of tied) {
+        if (entry.party === winner) {
+            winnerEntry = entry;
+        } else {
+            queue.restore(entry);
+        }
+    }
+    return winnerEntry;
+}
+
+/**
+ * Returns the floor of the quota of seats of each party, or its initial seats if higher,
+ * unless that makes more seats than the number to allocate.
+ */
+function floorQuotas<Party>(
+    votes: Simple<Party>,
+    initialSeats: Counter<Party, number>,
+    nSeats: number,
+): Counter<Party, number> | undefined {
+    const allVotes = votes.total;
+    const seats = NumberCounter.fromEntries(initialSeats);
+    for (const [party, v] of votes) {
+        const quota = Math.floor(nSeats * v / allVotes);
+        if (quota > initialSeats.get(party)) {
+            seats.set(party, quota);
+        }
+    }
+    return seats.total <= nSeats ? seats : undefined;
+}
+
 /**
  * A function creating a fixed-seats, proportional, rank-index attribution method
  * from a rank-index function.
  *
  * The implementation is optimized so as to call rankIndexFunction as few times as possible.
+ * The parties are kept in a priority queue, and the computation starts
+ * from the floor of the quota of each party, which is then checked to be
+ * what the seat-by-seat computation would have given, computing it otherwise.
+ * The seat-by-seat computation also decides the ties which need to be broken.
+ *
+ * The attribution supports the initialSeats and trace options.
+ * When recording a trace, the computation goes seat by seat from the start.
  *
  * Replaces the RankIndexMethod class implementation.
+ *
+ * @param tieBreak The tie-breaking policy between parties having the same rank-index value,
+ * only called when there are fewer seats left than such parties.
+ * Defaults to favoring the parties appearing last in the tally,
+ * or having reached that value the longest ago.
+ * @param exact If true, the rank-index values are computed and compared in exact rational arithmetic,
+ * using the exact version of the rank-index function, which is then required.
+ * Ties are then detected exactly, instead of being decided by floating-point rounding errors.
  */
 export function proportionalFromRankIndexFunction<Party>(
-    { nSeats, rankIndexFunction }: {
+    { nSeats, rankIndexFunction, tieBreak = defaultTieBreak, exact = false }: {
         nSeats: number,
         rankIndexFunction: RankIndexFunction,
+        tieBreak?: TieBreak<Party>,
+        exact?: boolean,
     }
 ): RankIndexMethod<Party> & HasNSeats {
-    const attrib = (votes: Simple<Party>, _rest = {}): Counter<Party, number> => {
-        const allVotes = votes.total;
-        const fractions = new Map([...votes.entries()].map(([party, v]) => [party, v / allVotes]));
-
-        const rankIndexValues = new Map([...fractions.entries()].map(([party, f]) => [party, rankIndexFunction(f, 0)]));
+    const attrib = (votes: Simple<Party>, { initialSeats, trace }: InitialSeatsOption<Party> & TraceOption<Party> = {}): Counter<Party, number> => {
+        const initial = initialSeatsCounter(initialSeats, nSeats);
+
+        const { value, compare, toNumber } = rankIndexArithmetic(votes, rankIndexFunction, exact);
+
+        /**
+         * Attributes the seats remaining after the given ones, one at a time.
+         * If a check is given, returns undefined if the highest value not winning a seat fails it,
+         * or if a tie has to be broken at the cut.
+         */
+        const attributeFrom = (
+            seats: Counter<Party, number>,
+            check?: (cutValue: unknown) => boolean,
+        ): Counter<Party, number> | undefined => {
+            const queue = new RankIndexQueue(compare, Array.from(votes.keys(), party => [party, value(party, seats.get(party))]));
+
+            for (let sn = seats.total; sn < nSeats; sn++) {
+                const tied = queue.popTied();
+                if (tied.length === 0) {
+                    break;
+                }
 
-        // the parties, sorted by increasing rankIndex value
-        const parties = [...votes.keys()].sort((a, b) => rankIndexValues.get(a)! - rankIndexValues.get(b)!);
+                // when the tie between the most deserving parties decides who gets the last seats
+                if (tied.length > nSeats - sn) {
+                    // the order of the tied parties depends on when they reached that value,
+                    // which only the seat-by-seat computation follows
+                    if (check !== undefined) {
+                        return undefined;
+                    }
+                    const tiedValue = toNumber(tied[0]!.value);
+                    const favored = breakTie(tied.map(entry => entry.party), tracedTieBreak(tieBreak, trace), simpleContext(votes));
+                    for (const [i, party] of favored.slice(0, nSeats - sn).entries()) {
+                        seats.increment(party);
+                        trace?.push({ kind: "rankIndex", attribution: "proportionalFromRankIndexFunction", seat: sn + i + 1, party, value: tiedValue });
+                    }
+                    return seats;
+                }
 
-        const seats = NumberCounter.fromEntries<Party>();
+                // take the most deserving party
+                const { party: winner, value: winnerValue } = tied.shift()!;
+                for (const entry of tied) {
+                    queue.restore(entry);
+                }
+                trace?.push({ kind: "rankIndex", attribution: "proportionalFromRankIndexFunction",
+                    seat: sn + 1, party: winner, value: toNumber(winnerValue) });
+                // give it a seat
+                seats.increment(winner);
+                // update the rankIndex value of the party
+                queue.push(winner, value(winner, seats.get(winner)));
+            }
 
-        s: for (let sn = 0; sn < nSeats; sn++) {
-            // take the most deserving party
-            const winner = parties.pop()!;
-            // give it a seat
-            seats.increment(winner);
-            // update the rankIndex value of the party
-            const winnerRankIndexValue = rankIndexFunction(fractions.get(winner)!, seats.get(winner));
-            rankIndexValues.set(winner, winnerRankIndexValue);
-
-            // insert it in its (new) place in the sorted list of parties
-            for (let pn = 0; pn < parties.length; pn++) {
-                if (rankIndexValues.get(parties[pn]!)! >= winnerRankIndexValue) {
-                    parties.splice(pn, 0, winner);
-                    continue s;
+            const cut = queue.peek();
+            if (check !== undefined && cut !== undefined && !check(cut.value)) {
+                return undefined;
+            }
+            return seats;
+        };
+
+        if (trace === undefined) {
+            const start = floorQuotas(votes, initial, nSeats);
+            if (start !== undefined) {
+                // the seats of the jump-start must all have higher values than the cut,
+                // so that the seat-by-seat computation would have attributed them in any case
+                const jumpStarted = [...start].filter(([party, s]) => s > initial.get(party));
+                const seats = attributeFrom(start, cutValue =>
+                    jumpStarted.every(([party, s]) => compare(value(party, s - 1), cutValue) > 0));
+                if (seats !== undefined) {
+                    return seats;
                 }
             }
-            parties.push(winner);
         }
-
-        return seats;
+        return attributeFrom(initial)!;
     };
     attrib.nSeats = nSeats;
     return attrib;
@@ -84,9 +361,19 @@ export function proportionalFromRankIndexFunction<Party>(
  * from a rank-index function,
  * making it so that each candidate has at least a given number of seats.
  *
+ * The attribution supports the initialSeats option,
+ * the initial seats counting towards all the minimums and maximums,
+ * and the trace option.
+ *
  * @param minNSeatPerCandidate the minimum number of seats for each candidate.
  * @param minNSeats the minimum number of seats in the resulting attribution. Overrides minNSeatsPerCandidate.
  * @param maxNSeats the maximum number of seats in the resulting attribution. Overrides minNSeatsPerCandidate (and minNSeats).
+ * @param tieBreak The tie-breaking policy between parties having the same rank-index value,
+ * called each time a seat goes to one of several such parties.
+ * Defaults to favoring the parties appearing last in the tally,
+ * or having reached that value the longest ago.
+ * @param exact If true, computes in exact rational arithmetic,
+ * as in proportionalFromRankIndexFunction.
  */
 export function flooredRankIndexMethod<Party>(
     {
@@ -94,53 +381,57 @@ export function flooredRankIndexMethod<Party>(
         minNSeatPerCandidate = 1,
         minNSeats = 0,
         maxNSeats = Infinity,
+        tieBreak = defaultTieBreak,
+        exact = false,
     }: {
         rankIndexFunction: RankIndexFunction,
         minNSeatPerCandidate?: number,
         minNSeats?: number,
         maxNSeats?: number,
+        tieBreak?: TieBreak<Party>,
+        exact?: boolean,
     }
 ): RankIndexMethod<Party> {
-    return (votes: Simple<Party>): Counter<Party, number> => {
-        const allVotes = votes.total;
-        const fractions = new Map([...votes.entries()].map(([party, v]) => [party, v / allVotes]));
+    return (votes: Simple<Party>, { initialSeats, trace }: InitialSeatsOption<Party> & TraceOption<Party> = {}): Counter<Party, number> => {
+        const seats = initialSeatsCounter(initialSeats, maxNSeats);
+        const partyTieBreak = tracedTieBreak(tieBreak, trace);
 
-        const rankIndexValues = new Map([...fractions.entries()].map(([party, f]) => [party, rankIndexFunction(f, 0)]));
+        const { value, compare, toNumber } = rankIndexArithmetic(votes, rankIndexFunction, exact);
 
-        // the parties, sorted by increasing rankIndex value
-        const parties = [...votes.keys()].sort((a, b) => rankIndexValues.get(a)! - rankIndexValues.get(b)!);
-        const remainingParties = new Set(parties);
+        const queue = new RankIndexQueue(compare, Array.from(votes.keys(), party => [party, value(party, seats.get(party))]));
+        const remainingParties = new Set([...votes.keys()].filter(party => seats.get(party) < minNSeatPerCandidate));
 
-        const seats = NumberCounter.fromEntries<Party>();
-
-        s: for (let sn = 0; minNSeats <= sn || (remainingParties.size && sn < maxNSeats); sn++) {
+        for (let sn = seats.total; sn < maxNSeats && (sn < minNSeats || remainingParties.size); sn++) {
             // take the most deserving party
-            const winner = parties.pop()!;
+            const winnerEntry = popMostDeserving(queue, votes, partyTieBreak);
+            if (winnerEntry === undefined) {
+                break;
+            }
+            const winner = winnerEntry.party;
+            trace?.push({ kind: "rankIndex", attribution: "flooredRankIndexMethod",
+                seat: sn + 1, party: winner, value: toNumber(winnerEntry.value) });
             // give it a seat
             seats.increment(winner);
             const newWinnerSeats = seats.get(winner);
             // update the rankIndex value of the party
-            const winnerRankIndexValue = rankIndexFunction(fractions.get(winner)!, newWinnerSeats);
-            rankIndexValues.set(winner, winnerRankIndexValue);
+            queue.push(winner, value(winner, newWinnerSeats));
             // update the satisfaction of the minimum
             if (newWinnerSeats >= minNSeatPerCandidate) {
                 remainingParties.delete(winner);
             }
-
-            // insert it in its (new) place in the sorted list of parties
-            for (let pn = 0; pn < parties.length; pn++) {
-                if (rankIndexValues.get(parties[pn]!)! >= winnerRankIndexValue) {
-                    parties.splice(pn, 0, winner);
-                    continue s;
-                }
-            }
-            parties.push(winner);
         }
 
         return seats;
     };
 }
 
+/**
+ * The margin by which an incremental metric value may exceed the best one
+ * and still be checked against the metric itself.
+ * Metrics involving square roots amplify the rounding errors near 0.
+ */
+const INCREMENTAL_METRIC_TOLERANCE = 1e-6;
+
 /**
  * Creates a rank-index (proportional) attribution method in which
  * the total number of seats is NOT fixed.
@@ -153,44 +444,71 @@ export function flooredRankIndexMethod<Party>(
  * The attribution will only return a 0-seats attribution when the maxNSeats is 0,
  * otherwise, a minNSeats value of 0 will be treated as 1.
  *
- * The metric has a reasonable default.
+ * The metric has a reasonable default, and can be any of the DisproportionMetric functions,
+ * such as the Gallagher index or the Sainte-Laguë index.
+ * If the metric can be computed incrementally, it is, seat after seat,
+ * and it is only fully computed for the attributions which may improve on the best one.
  *
  * The implementation is still optimized so as to call rankIndexFunction as few times as possible.
  *
+ * The attribution supports the initialSeats option,
+ * the initial seats counting towards the minimum and maximum numbers of seats,
+ * and the trace option, which records the seats attributed up to the maximum number of seats.
+ *
  * @param minNSeats The minimum number of seats to be allocated, inclusive.
  * @param maxNSeats The maximum number of seats to be allocated, inclusive.
+ * @param tieBreak The tie-breaking policy between parties having the same rank-index value,
+ * called each time a seat goes to one of several such parties.
+ * Defaults to favoring the parties appearing last in the tally,
+ * or having reached that value the longest ago.
+ * @param exact If true, computes the rank-index values in exact rational arithmetic,
+ * as in proportionalFromRankIndexFunction. The metric is still computed with numbers.
  */
 export function boundedRankIndexMethod<Party>(
-    { minNSeats, maxNSeats, rankIndexFunction, metric = defaultMetric }: {
+    { minNSeats, maxNSeats, rankIndexFunction, metric = defaultMetric, tieBreak = defaultTieBreak, exact = false }: {
         minNSeats: number,
         maxNSeats: number,
         rankIndexFunction: RankIndexFunction,
         metric?: DisproportionMetric<Party>,
+        tieBreak?: TieBreak<Party>,
+        exact?: boolean,
     }
 ): RankIndexMethod<Party> {
-    const attrib = (votes: Simple<Party>, _rest = {}): Counter<Party, number> => {
-        const allVotes = votes.total;
-        const fractions = new Map([...votes.entries()].map(([party, v]) => [party, v / allVotes]));
+    const attrib = (votes: Simple<Party>, { initialSeats, trace }: InitialSeatsOption<Party> & TraceOption<Party> = {}): Counter<Party, number> => {
+        const seats = initialSeatsCounter(initialSeats, maxNSeats);
+        const partyTieBreak = tracedTieBreak(tieBreak, trace);
 
-        const rankIndexValues = new Map([...fractions.entries()].map(([party, f]) => [party, rankIndexFunction(f, 0)]));
+        const { value, compare, toNumber } = rankIndexArithmetic(votes, rankIndexFunction, exact);
 
-        // the parties, sorted by increasing rankIndex value
-        const parties = [...votes.keys()].sort((a, b) => rankIndexValues.get(a)! - rankIndexValues.get(b)!);
-
-        const seats = NumberCounter.fromEntries<Party>();
+        const queue = new RankIndexQueue(compare, Array.from(votes.keys(), party => [party, value(party, seats.get(party))]));
+        const incrementalMetric = metric.incremental?.({ votes, seats });
 
         let bestSeats = seats.pos;
         // technically, most metrics give 0 for a 0-seats attribution
         // but we have to patch that out otherwise the 0-seats attribution will always be returned
         let bestSeatsMetric = Infinity;
+        if (seats.total > 0 && seats.total >= minNSeats) {
+            bestSeatsMetric = metric({ votes, seats });
+        }
 
-        s: for (let sn = 1; sn <= maxNSeats; sn++) {
+        for (let sn = seats.total + 1; sn <= maxNSeats; sn++) {
             // take the most deserving party
-            const winner = parties.pop()!;
+            const winnerEntry = popMostDeserving(queue, votes, partyTieBreak);
+            if (winnerEntry === undefined) {
+                break;
+            }
+            const winner = winnerEntry.party;
+            trace?.push({ kind: "rankIndex", attribution: "boundedRankIndexMethod",
+                seat: sn, party: winner, value: toNumber(winnerEntry.value) });
             // give it a seat
             seats.increment(winner);
+            // the incremental metric follows every seat, even below the minimum
+            const incrementedMetric = incrementalMetric?.addSeat(winner);
 
-            if (sn >= minNSeats) {
+            // the incremental value only screens out the attributions clearly worse than the best one,
+            // the others being compared on the metric itself, free of rounding errors
+            if (sn >= minNSeats && (incrementedMetric === undefined
+                || incrementedMetric <= bestSeatsMetric * (1 + INCREMENTAL_METRIC_TOLERANCE) + INCREMENTAL_METRIC_TOLERANCE)) {
                 // compute the metric of the new attribution
                 const newMetric = metric({ votes, seats });
                 if (newMetric < bestSeatsMetric) { // when above the min, favor fewer seats
@@ -200,17 +518,7 @@ export function boundedRankIndexMethod<Party>(
             }
 
             // update the rankIndex value of the party
-            const winnerRankIndexValue = rankIndexFunction(fractions.get(winner)!, seats.get(winner));
-            rankIndexValues.set(winner, winnerRankIndexValue);
-
-            // insert it in its (new) place in the sorted list of parties
-            for (let pn = 0; pn < parties.length; pn++) {
-                if (rankIndexValues.get(parties[pn]!)! >= winnerRankIndexValue) {
-                    parties.splice(pn, 0, winner);
-                    continue s;
-                }
-            }
-            parties.push(winner);
+            queue.push(winner, value(winner, seats.get(winner)));
         }
 
         return bestSeats;
@@ -229,30 +537,93 @@ export interface DivisorMethod<Party> extends RankIndexMethod<Party> {}
  */
 export interface DivisorFunction {
     (k: number): number;
+    /**
+     * The same function computed in exact rational arithmetic.
+     * If not provided, the exact mode converts the returned numbers to fractions,
+     * which is exact as long as the divisors are decimal numbers.
+     */
+    readonly exact?: (k: number) => Fraction;
 }
 
 export function stationaryDivisorFunction(r: number): DivisorFunction {
     return (k: number) => k + r;
 }
 
+/**
+ * The returned rank-index function has an exact version.
+ */
 export function rankIndexFunctionFromDivisorFunction(
     divisorFunction: DivisorFunction
 ): RankIndexFunction {
-    return (t, a) => t / divisorFunction(a);
+    const exactDivisorFunction = divisorFunction.exact ?? (k => Fraction.from(divisorFunction(k)));
+    return Object.assign((t: number, a: number) => t / divisorFunction(a), {
+        exact: (t: Fraction, a: number) => t.div(exactDivisorFunction(a)),
+    });
 }
 
 /**
  * A function creating a divisor method -
  * one kind of rank-index attribution, itself a kind of proportional attribution.
+ *
+ * @param exact If true, the quotients are computed and compared in exact rational arithmetic.
  */
 export function proportionalFromDivisorFunction<Party>(
-    { nSeats, divisorFunction }: {
+    { nSeats, divisorFunction, tieBreak = defaultTieBreak, exact = false }: {
         nSeats: number,
         divisorFunction: DivisorFunction,
+        tieBreak?: TieBreak<Party>,
+        exact?: boolean,
     }
 ): DivisorMethod<Party> & HasNSeats {
     return proportionalFromRankIndexFunction({
         nSeats,
         rankIndexFunction: rankIndexFunctionFromDivisorFunction(divisorFunction),
+        tieBreak,
+        exact,
     });
 }
+
+/**
+ * A function that should be pure.
+ * @param nVotes The total number of votes cast
+ * @param nSeats The number of seats to allocate
+ * @returns The number of votes which guarantees (or is worth) one seat
+ */
+export interface QuotaFunction {
+    (nVotes: number, nSeats: number): number;
+    /**
+     * The same function computed in exact rational arithmetic,
+     * used by the attributions in exact mode.
+     */
+    readonly exact?: (nVotes: Fraction, nSeats: number) => Fraction;
+}
+
+/**
+ * The Hare quota, also known as the simple quota.
+ */
+export const hareQuota: QuotaFunction = Object.assign((nVotes: number, nSeats: number) => nVotes / nSeats, {
+    exact: (nVotes: Fraction, nSeats: number) => nVotes.div(nSeats),
+});
+
+/**
+ * The Droop quota, the smallest integer quota
+ * that no more than nSeats candidates can reach.
+ */
+export const droopQuota: QuotaFunction = Object.assign((nVotes: number, nSeats: number) => Math.floor(nVotes / (nSeats + 1)) + 1, {
+    exact: (nVotes: Fraction, nSeats: number) => Fraction.of(nVotes.div(nSeats + 1).floor()).add(1),
+});
+
+/**
+ * The Hagenbach-Bischoff quota.
+ */
+export const hagenbachBischoffQuota: QuotaFunction = Object.assign((nVotes: number, nSeats: number) => nVotes / (nSeats + 1), {
+    exact: (nVotes: Fraction, nSeats: number) => nVotes.div(nSeats + 1),
+});
+
+/**
+ * The Imperiali quota.
+ * It is so low that it may allocate more seats than there are to allocate.
+ */
+export const imperialiQuota: QuotaFunction = Object.assign((nVotes: number, nSeats: number) => nVotes / (nSeats + 2), {
+    exact: (nVotes: Fraction, nSeats: number) => nVotes.div(nSeats + 2),
+});
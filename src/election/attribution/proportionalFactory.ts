@@ -1,18 +1,25 @@
 import { divmod } from "@gouvernathor/python";
 import { NumberCounter, type Counter } from "@gouvernathor/python/collections";
 import { type Simple } from "../tally";
-import { type Attribution, type HasNSeats } from "../attribution";
+import { type Attribution, AttributionFailure, type HasNSeats, type InitialSeatsOption } from "../attribution";
 import { addThresholdToSimpleAttribution } from "../attribution/transform";
-import { type DivisorFunction, type DivisorMethod, type Proportional, proportionalFromDivisorFunction, proportionalFromRankIndexFunction, rankIndexFunctionFromDivisorFunction, type RankIndexMethod, stationaryDivisorFunction } from "./proportionalBase";
+import { Fraction, fractionRanks } from "./fraction";
+import { defaultTieBreak, highestN, lowestN, simpleContext, type TieBreak } from "./tieBreak";
+import { tracedTieBreak, type TraceOption } from "./trace";
+import { type DivisorFunction, type DivisorMethod, droopQuota, hagenbachBischoffQuota, imperialiQuota, initialSeatsCounter, type Proportional, proportionalFromDivisorFunction, proportionalFromRankIndexFunction, type QuotaFunction, rankIndexFunctionFromDivisorFunction, type RankIndexFunction, type RankIndexMethod, stationaryDivisorFunction } from "./proportionalBase";
 
 const divisor1 = stationaryDivisorFunction(1);
 export function jefferson<Party>(
-    { nSeats }: {
+    { nSeats, tieBreak = defaultTieBreak, exact = false }: {
         nSeats: number,
+        tieBreak?: TieBreak<Party>,
+        exact?: boolean,
     }
 ): DivisorMethod<Party> & HasNSeats {
     return proportionalFromDivisorFunction<Party>({
         nSeats,
+        tieBreak,
+        exact,
         divisorFunction: divisor1,
     });
 }
@@ -20,36 +27,92 @@ export const dHondt = jefferson;
 
 const divisorPoint5: DivisorFunction = k => 2 * k + 1; // int math is better than k + .5
 export function webster<Party>(
-    { nSeats }: {
+    { nSeats, tieBreak = defaultTieBreak, exact = false }: {
         nSeats: number,
+        tieBreak?: TieBreak<Party>,
+        exact?: boolean,
     }
 ): DivisorMethod<Party> & HasNSeats {
     return proportionalFromDivisorFunction<Party>({
         nSeats,
+        tieBreak,
+        exact,
         divisorFunction: divisorPoint5,
     });
 }
 export const sainteLague = webster;
 
+/**
+ * The attribution supports the initialSeats and trace options.
+ * In the former case, the seats remaining after the initial seats are apportioned
+ * proportionally to how far each party's initial seats fall short of its share of all the seats.
+ *
+ * @param tieBreak The tie-breaking policy between parties having the same remainder,
+ * only called when not all of them can receive a seat.
+ * Defaults to favoring the parties appearing first in the tally.
+ * @param exact If true, the quotas and remainders are computed and compared in exact rational arithmetic,
+ * so that ties are detected exactly instead of being decided by floating-point rounding errors.
+ * With initial seats, the computation is exact as long as the votes are integers.
+ */
 export function hamilton<Party>(
-    { nSeats }: {
+    { nSeats, tieBreak = defaultTieBreak, exact = false }: {
         nSeats: number,
+        tieBreak?: TieBreak<Party>,
+        exact?: boolean,
     }
 ): Proportional<Party> & HasNSeats {
-    const attrib = (votes: Simple<Party>, _rest = {}): Counter<Party, number> => {
+    const attrib = (votes: Simple<Party>, { initialSeats, trace }: InitialSeatsOption<Party> & TraceOption<Party> = {}): Counter<Party, number> => {
+        if (initialSeats !== undefined) {
+            const seats = initialSeatsCounter(initialSeats, nSeats);
+            const sumVotes = votes.total;
+            // in exact mode, the shortfalls are multiplied by the total votes,
+            // which does not change the apportionment but keeps them integer
+            const shortfalls = NumberCounter.fromEntries([...votes.entries()]
+                .map(([party, scores]) => [party, exact ?
+                    Math.max(0, scores * nSeats - seats.get(party) * sumVotes) :
+                    Math.max(0, scores * nSeats / sumVotes - seats.get(party))]));
+            if (shortfalls.total > 0) {
+                seats.updateBy(hamilton<Party>({ nSeats: nSeats - seats.total, tieBreak, exact })(shortfalls.pos, { trace }));
+            }
+            return seats;
+        }
+
         const seats = NumberCounter.fromEntries<Party>();
         const remainders = new Map<Party, number>();
+        // the values by which the remainders are compared
+        let remainderValues: ReadonlyMap<Party, number> = remainders;
         const sumVotes = votes.total;
 
-        for (const [party, scores] of votes) {
-            const [i, r] = divmod(scores * nSeats, sumVotes);
-            seats.set(party, i);
-            remainders.set(party, r);
+        if (exact) {
+            const exactSumVotes = Fraction.sum(votes.values());
+            const exactRemainders = new Map<Party, Fraction>();
+            for (const [party, scores] of votes) {
+                const quotient = Fraction.from(scores).mul(nSeats).div(exactSumVotes);
+                const i = quotient.floor();
+                seats.set(party, Number(i));
+                exactRemainders.set(party, quotient.sub(Fraction.of(i)));
+                remainders.set(party, quotient.sub(Fraction.of(i)).mul(exactSumVotes).toNumber());
+            }
+            remainderValues = fractionRanks(exactRemainders);
+        } else {
+            for (const [party, scores] of votes) {
+                const [i, r] = divmod(scores * nSeats, sumVotes);
+                seats.set(party, i);
+                remainders.set(party, r);
+            }
         }
 
-        seats.add([...remainders.keys()]
-            .sort((a, b) => remainders.get(b)! - remainders.get(a)!)
-            .slice(0, nSeats - seats.total));
+        const remainderSeats = highestN([...remainders.keys()], nSeats - seats.total,
+            party => remainderValues.get(party)!, tracedTieBreak(tieBreak, trace), simpleContext(votes));
+        trace?.push({
+            kind: "remainders",
+            attribution: "hamilton",
+            quota: sumVotes / nSeats,
+            fullSeats: [...seats.entries()],
+            remainders: Array.from(remainders, ([party, r]) => [party, r / nSeats]),
+            remainderSeats: remainderSeats.map(party => [party, 1]),
+        });
+        seats.add(remainderSeats);
         return seats;
     };
     attrib.nSeats = nSeats;
@@ -57,13 +120,190 @@ export function hamilton<Party>(
 }
 export const hareLargestRemainders = hamilton;
 
-const huntingtonHillBaseRankIndexFunction = rankIndexFunctionFromDivisorFunction(k => Math.sqrt(k * (k + 1)));
-const huntingtonHillRankIndexFunction = (t: number, a: number) => {
-    if (a <= 0) {
-        return Infinity;
+/**
+ * Creates a largest-remainders proportional attribution method using the given quota.
+ * Each party first receives as many seats as it has full quotas of votes,
+ * then the remaining seats go to the parties having the largest remainders.
+ *
+ * With a low quota, such as the Imperiali quota, the full quotas may add up to more seats
+ * than there are to allocate. In that case, the overAllocation parameter decides what happens :
+ * - "smallestRemainders" (the default) takes one seat back from each of the parties
+ * having the smallest remainders, until the right number of seats is reached.
+ * If fewer parties hold seats than there are seats in excess, the seats are taken back
+ * in several passes, possibly several from the same party.
+ * - "fallbackQuota" runs the attribution again with the fallbackQuota,
+ * which defaults to the Hagenbach-Bischoff quota.
+ * - "fail" throws an AttributionFailure error.
+ *
+ * @param quota The function computing the quota from the total number of votes and the number of seats.
+ * @param tieBreak The tie-breaking policy between parties having the same remainder,
+ * only called when not all of them can receive a seat, or lose one.
+ * Defaults to favoring the parties appearing first in the tally.
+ * @param exact If true, the quota and remainders are computed and compared in exact rational arithmetic,
+ * using the exact version of the quota functions, which is then required.
+ * The built-in quota functions all have one.
+ */
+export function largestRemainderFromQuota<Party>(
+    {
+        nSeats,
+        quota,
+        overAllocation = "smallestRemainders",
+        fallbackQuota = hagenbachBischoffQuota,
+        tieBreak = defaultTieBreak,
+        exact = false,
+    }: {
+        nSeats: number,
+        quota: QuotaFunction,
+        overAllocation?: "smallestRemainders" | "fallbackQuota" | "fail",
+        fallbackQuota?: QuotaFunction,
+        tieBreak?: TieBreak<Party>,
+        exact?: boolean,
+    }
+): Proportional<Party> & HasNSeats {
+    const attrib = (votes: Simple<Party>, rest: TraceOption<Party> = {}): Counter<Party, number> => {
+        const { trace } = rest;
+        const partyTieBreak = tracedTieBreak(tieBreak, trace);
+        const seats = NumberCounter.fromEntries<Party>();
+        const remainders = new Map<Party, number>();
+        // the values by which the remainders are compared
+        let remainderValues: ReadonlyMap<Party, number> = remainders;
+        let q: number;
+
+        if (exact) {
+            if (quota.exact === undefined) {
+                throw new Error("The quota function has no exact version");
+            }
+            const exactQuota = quota.exact(Fraction.sum(votes.values()), nSeats);
+            q = exactQuota.toNumber();
+            const exactRemainders = new Map<Party, Fraction>();
+            for (const [party, scores] of votes) {
+                const i = Fraction.from(scores).div(exactQuota).floor();
+                const r = Fraction.from(scores).sub(exactQuota.mul(Fraction.of(i)));
+                seats.set(party, Number(i));
+                exactRemainders.set(party, r);
+                remainders.set(party, r.toNumber());
+            }
+            remainderValues = fractionRanks(exactRemainders);
+        } else {
+            q = quota(votes.total, nSeats);
+            for (const [party, scores] of votes) {
+                const [i, r] = divmod(scores, q);
+                seats.set(party, i);
+                remainders.set(party, r);
+            }
+        }
+
+        const recordRemainders = (remainderSeats: [Party, number][]) => trace?.push({
+            kind: "remainders",
+            attribution: "largestRemainderFromQuota",
+            quota: q,
+            fullSeats: [...seats.entries()],
+            remainders: [...remainders.entries()],
+            remainderSeats,
+        });
+
+        const excess = seats.total - nSeats;
+        if (excess > 0) {
+            switch (overAllocation) {
+                case "smallestRemainders": {
+                    const removed = NumberCounter.fromEntries<Party>();
+                    for (let remainingExcess = excess; remainingExcess > 0;) {
+                        const taken = lowestN([...remainders.keys()].filter(party => seats.get(party) > removed.get(party)), remainingExcess,
+                            party => remainderValues.get(party)!, partyTieBreak, simpleContext(votes));
+                        removed.add(taken);
+                        remainingExcess -= taken.length;
+                    }
+                    recordRemainders([...removed.entries()].map(([party, n]) => [party, -n]));
+                    seats.subtract(removed.elements());
+                    return seats;
+                }
+                case "fallbackQuota":
+                    return largestRemainderFromQuota<Party>({ nSeats, quota: fallbackQuota, overAllocation: "smallestRemainders", tieBreak, exact })(votes, rest);
+                case "fail":
+                    throw new AttributionFailure(`The quota allocated ${excess} seats too many`);
+            }
+        }
+
+        const remainderSeats = highestN([...remainders.keys()], nSeats - seats.total,
+            party => remainderValues.get(party)!, partyTieBreak, simpleContext(votes));
+        recordRemainders(remainderSeats.map(party => [party, 1]));
+        seats.add(remainderSeats);
+        return seats;
+    };
+    attrib.nSeats = nSeats;
+    return attrib;
+}
+
+export function droopLargestRemainders<Party>(
+    { nSeats, tieBreak = defaultTieBreak, exact = false }: {
+        nSeats: number,
+        tieBreak?: TieBreak<Party>,
+        exact?: boolean,
+    }
+): Proportional<Party> & HasNSeats {
+    return largestRemainderFromQuota({ nSeats, quota: droopQuota, tieBreak, exact });
+}
+
+export function hagenbachBischoffLargestRemainders<Party>(
+    { nSeats, tieBreak = defaultTieBreak, exact = false }: {
+        nSeats: number,
+        tieBreak?: TieBreak<Party>,
+        exact?: boolean,
     }
-    return huntingtonHillBaseRankIndexFunction(t, a);
-};
+): Proportional<Party> & HasNSeats {
+    return largestRemainderFromQuota({ nSeats, quota: hagenbachBischoffQuota, tieBreak, exact });
+}
+
+/**
+ * The Imperiali quota may allocate more seats than there are to allocate :
+ * see largestRemainderFromQuota for how this is handled.
+ */
+export function imperialiLargestRemainders<Party>(
+    { nSeats, overAllocation = "smallestRemainders", tieBreak = defaultTieBreak, exact = false }: {
+        nSeats: number,
+        overAllocation?: "smallestRemainders" | "fallbackQuota" | "fail",
+        tieBreak?: TieBreak<Party>,
+        exact?: boolean,
+    }
+): Proportional<Party> & HasNSeats {
+    return largestRemainderFromQuota({ nSeats, quota: imperialiQuota, overAllocation, tieBreak, exact });
+}
+
+/**
+ * Makes a rank-index function out of a divisor function whose first divisor is 0,
+ * giving the candidates with no seat precedence over all the others.
+ */
+function zeroFirstDivisorRankIndexFunction(divisorFunction: DivisorFunction): RankIndexFunction {
+    const baseRankIndexFunction = rankIndexFunctionFromDivisorFunction(divisorFunction);
+    const exactBaseRankIndexFunction = baseRankIndexFunction.exact!;
+    return Object.assign((t: number, a: number) => {
+        if (a <= 0) {
+            return Infinity;
+        }
+        return baseRankIndexFunction(t, a);
+    }, {
+        exact: (t: Fraction, a: number) => {
+            if (a <= 0) {
+                return Fraction.INFINITY;
+            }
+            return exactBaseRankIndexFunction(t, a);
+        },
+    });
+}
+
+const huntingtonHillDivisorFunction = (k: number) => Math.sqrt(k * (k + 1));
+const huntingtonHillFactory = zeroFirstDivisorMethodFactory(huntingtonHillDivisorFunction,
+    Object.assign(zeroFirstDivisorRankIndexFunction(huntingtonHillDivisorFunction), {
+        // compares the squares of the quotients, t²/(a(a+1)), which are rational
+        exact: Object.assign((t: Fraction, a: number) => {
+            if (a <= 0) {
+                return Fraction.INFINITY;
+            }
+            return t.mul(t).div(a * (a + 1));
+        }, {
+            toNumber: (v: Fraction) => Math.sqrt(v.toNumber()),
+        }),
+    }));
 /**
  * This attribution method required some creativity and tweaks,
  * since the standard divisor won't work without an initial seats value,
@@ -77,52 +317,215 @@ const huntingtonHillRankIndexFunction = (t: number, a: number) => {
  * until all candidates have a seat,
  * or (but that would be a bug) all seats are allocated.
  *
- * The order in which the first seats are allocated is an implementation detail.
+ * The order in which the first seats are allocated is an implementation detail,
+ * but when there are more candidates than seats, which candidates receive a first seat
+ * is decided by the tieBreak policy, which defaults to favoring the candidates appearing last in the tally.
+ *
+ * In exact mode, the squares of the quotients are compared instead of the quotients,
+ * since the geometric means used as divisors are irrational.
  */
 export function huntingtonHill<Party>(
-    { nSeats, threshold }: {
+    { nSeats, threshold, tieBreak, exact }: {
         nSeats: number,
         threshold: 0,
+        tieBreak?: TieBreak<Party>,
+        exact?: boolean,
     }
 ): DivisorMethod<Party> & HasNSeats;
 export function huntingtonHill<Party>(
-    { nSeats, threshold, contingency }: {
+    { nSeats, threshold, contingency, tieBreak, exact }: {
         nSeats: number,
         threshold: number,
         contingency?: DivisorMethod<Party> | null,
+        tieBreak?: TieBreak<Party>,
+        exact?: boolean,
     }
 ): DivisorMethod<Party> & HasNSeats;
 export function huntingtonHill<Party>(
-    { nSeats, threshold, contingency }: {
+    { nSeats, threshold, contingency, tieBreak, exact }: {
         nSeats: number,
         threshold: number,
         contingency?: RankIndexMethod<Party> | null,
+        tieBreak?: TieBreak<Party>,
+        exact?: boolean,
     }
 ): RankIndexMethod<Party> & HasNSeats;
 export function huntingtonHill<Party>(
-    { nSeats, threshold, contingency }: {
+    { nSeats, threshold, contingency, tieBreak, exact }: {
         nSeats: number,
         threshold: number,
         contingency?: Attribution<Party, Simple<Party>> | null,
+        tieBreak?: TieBreak<Party>,
+        exact?: boolean,
     }
 ): Attribution<Party, Simple<Party>> & HasNSeats;
 export function huntingtonHill<Party>(
-    { nSeats, threshold, contingency = null }: {
+    { nSeats, threshold, contingency = null, tieBreak = defaultTieBreak, exact = false }: {
         nSeats: number,
         threshold: number,
         contingency?: Attribution<Party, Simple<Party>> | null,
+        tieBreak?: TieBreak<Party>,
+        exact?: boolean,
     }
 ) {
-    const attrib = addThresholdToSimpleAttribution({
-        threshold,
-        contingency,
-        attribution: proportionalFromRankIndexFunction({
-            nSeats,
-            rankIndexFunction: huntingtonHillRankIndexFunction,
-        }),
-    }) as Attribution<Party, Simple<Party>> & { nSeats?: number };
-    attrib.nSeats = nSeats;
-    return attrib;
+    return huntingtonHillFactory<Party>({ nSeats, threshold, contingency, tieBreak, exact });
+}
+
+/**
+ * The signature of the factories of divisor methods whose first divisor is 0,
+ * which require a threshold in the same way as huntingtonHill.
+ */
+export interface ZeroFirstDivisorMethodFactory {
+    <Party>({ nSeats, threshold, tieBreak, exact }: {
+        nSeats: number,
+        threshold: 0,
+        tieBreak?: TieBreak<Party>,
+        exact?: boolean,
+    }): DivisorMethod<Party> & HasNSeats;
+    <Party>({ nSeats, threshold, contingency, tieBreak, exact }: {
+        nSeats: number,
+        threshold: number,
+        contingency?: DivisorMethod<Party> | null,
+        tieBreak?: TieBreak<Party>,
+        exact?: boolean,
+    }): DivisorMethod<Party> & HasNSeats;
+    <Party>({ nSeats, threshold, contingency, tieBreak, exact }: {
+        nSeats: number,
+        threshold: number,
+        contingency?: RankIndexMethod<Party> | null,
+        tieBreak?: TieBreak<Party>,
+        exact?: boolean,
+    }): RankIndexMethod<Party> & HasNSeats;
+    <Party>({ nSeats, threshold, contingency, tieBreak, exact }: {
+        nSeats: number,
+        threshold: number,
+        contingency?: Attribution<Party, Simple<Party>> | null,
+        tieBreak?: TieBreak<Party>,
+        exact?: boolean,
+    }): Attribution<Party, Simple<Party>> & HasNSeats;
+}
+
+/**
+ * The rank-index function, if passed, replaces the one made from the divisor function.
+ */
+function zeroFirstDivisorMethodFactory(
+    divisorFunction: DivisorFunction,
+    rankIndexFunction: RankIndexFunction = zeroFirstDivisorRankIndexFunction(divisorFunction),
+): ZeroFirstDivisorMethodFactory {
+    return <Party>({ nSeats, threshold, contingency = null, tieBreak = defaultTieBreak, exact = false }: {
+        nSeats: number,
+        threshold: number,
+        contingency?: Attribution<Party, Simple<Party>> | null,
+        tieBreak?: TieBreak<Party>,
+        exact?: boolean,
+    }) => {
+        const attrib = addThresholdToSimpleAttribution({
+            threshold,
+            contingency,
+            attribution: proportionalFromRankIndexFunction({
+                nSeats,
+                rankIndexFunction,
+                tieBreak,
+                exact,
+            }),
+        }) as Attribution<Party, Simple<Party>> & { nSeats?: number };
+        attrib.nSeats = nSeats;
+        return attrib as Attribution<Party, Simple<Party>> & HasNSeats;
+    };
+}
+
+/**
+ * Creates an Adams (or smallest divisors) proportional attribution method,
+ * whose divisors are 0, 1, 2, 3...
+ *
+ * Since the first divisor is 0, a threshold is required
+ * in the same way as in the huntingtonHill attribution method.
+ */
+export const adams = zeroFirstDivisorMethodFactory(k => k);
+export const smallestDivisors = adams;
+
+/**
+ * Creates a Dean (or harmonic mean) proportional attribution method,
+ * whose divisors are the harmonic means of k and k+1 : 0, 4/3, 12/5, 24/7...
+ *
+ * Since the first divisor is 0, a threshold is required
+ * in the same way as in the huntingtonHill attribution method.
+ */
+export const dean = zeroFirstDivisorMethodFactory(Object.assign((k: number) => 2 * k * (k + 1) / (2 * k + 1), {
+    exact: (k: number) => Fraction.of(BigInt(2 * k * (k + 1)), BigInt(2 * k + 1)),
+}));
+
+const divisorDanish: DivisorFunction = k => 3 * k + 1; // int math is better than k + 1/3
+/**
+ * Creates a Danish method proportional attribution method,
+ * whose divisors are 1, 4, 7, 10...
+ */
+export function danish<Party>(
+    { nSeats, tieBreak = defaultTieBreak, exact = false }: {
+        nSeats: number,
+        tieBreak?: TieBreak<Party>,
+        exact?: boolean,
+    }
+): DivisorMethod<Party> & HasNSeats {
+    return proportionalFromDivisorFunction<Party>({
+        nSeats,
+        tieBreak,
+        exact,
+        divisorFunction: divisorDanish,
+    });
+}
+
+/**
+ * Creates a modified Sainte-Laguë proportional attribution method,
+ * whose divisors are the same as with the Sainte-Laguë method (1, 3, 5, 7...)
+ * except for the first one, which is higher so as to favor the larger parties.
+ *
+ * @param firstDivisor The first divisor, defaults to 1.4 as used in Sweden and Norway.
+ */
+export function modifiedSainteLague<Party>(
+    { nSeats, firstDivisor = 1.4, tieBreak = defaultTieBreak, exact = false }: {
+        nSeats: number,
+        firstDivisor?: number,
+        tieBreak?: TieBreak<Party>,
+        exact?: boolean,
+    }
+): DivisorMethod<Party> & HasNSeats {
+    return proportionalFromDivisorFunction<Party>({
+        nSeats,
+        tieBreak,
+        exact,
+        divisorFunction: k => k === 0 ? firstDivisor : divisorPoint5(k),
+    });
+}
+
+/**
+ * Creates a stationary divisor method, whose divisors are r, 1+r, 2+r, 3+r...
+ * This family includes the Jefferson (r = 1), Webster (r = 1/2) and Danish (r = 1/3) methods.
+ *
+ * For r = 0, use the adams method instead.
+ *
+ * @param r The fractional part of the divisors, strictly greater than 0 and lower than or equal to 1.
+ */
+export function stationaryDivisorMethod<Party>(
+    { nSeats, r, tieBreak = defaultTieBreak, exact = false }: {
+        nSeats: number,
+        r: number,
+        tieBreak?: TieBreak<Party>,
+        exact?: boolean,
+    }
+): DivisorMethod<Party> & HasNSeats {
+    if (!Number.isInteger(nSeats) || nSeats < 0) {
+        throw new Error(`The number of seats must be a non-negative integer, not ${nSeats}`);
+    }
+    if (!(0 < r && r <= 1)) {
+        throw new Error(`The r parameter must be in ]0, 1], not ${r}`);
+    }
+    return proportionalFromDivisorFunction<Party>({
+        nSeats,
+        tieBreak,
+        exact,
+        divisorFunction: stationaryDivisorFunction(r),
+    });
 }
 
 /**
@@ -1,28 +1,65 @@
-import { enumerate, max } from "@gouvernathor/python";
+import { enumerate, sum } from "@gouvernathor/python";
 import { Counter, DefaultMap, NumberCounter } from "@gouvernathor/python/collections";
-import { fmean, median } from "@gouvernathor/python/statistics";
-import { Scores } from "../tally";
+import { ballotWeights, ScoreProfile, Scores, totalWeight } from "../tally";
 import { type Attribution, type HasNSeats } from "../attribution";
+import { breakTie, defaultTieBreak, highest, highestN, scoreProfileContext, scoresContext, type TieBreak } from "./tieBreak";
+import { tracedTieBreak, type TraceOption } from "./trace";
+
+/**
+ * Returns the mean of the grades, given the number of ballots giving each grade,
+ * which need not be integers.
+ */
+function weightedMean(grades: readonly number[]): number {
+    let total = 0;
+    for (const [grade, qty] of enumerate(grades)) {
+        total += grade * qty;
+    }
+    return total / sum(grades);
+}
+
+/**
+ * Returns the median of the grades, given the number of ballots giving each grade,
+ * which need not be integers.
+ * When the median falls between two grades, returns their mean.
+ */
+function weightedMedian(grades: readonly number[]): number {
+    const half = sum(grades) / 2;
+    let cumulated = 0;
+    let lower: number | undefined;
+    for (const [grade, qty] of enumerate(grades)) {
+        cumulated += qty;
+        if (lower === undefined && cumulated >= half) {
+            lower = grade;
+        }
+        if (cumulated > half) {
+            return (lower! + grade) / 2;
+        }
+    }
+    throw new Error("No grade was given");
+}
 
 /**
  * Creates an attribution method in which all the seats go to the candidate with the highest average score.
  *
  * The ballots are not required to grade all the candidates.
+ *
+ * @param tieBreak The tie-breaking policy between the candidates having the highest average score.
+ * Defaults to favoring the candidate appearing last in the tally.
  */
 export function averageScore<Party>(
-    { nSeats }: {
-        nSeats: number
+    { nSeats, tieBreak = defaultTieBreak }: {
+        nSeats: number,
+        tieBreak?: TieBreak<Party>,
     }
 ): Attribution<Party, Scores<Party>> & HasNSeats {
-    const attrib = (votes: Scores<Party>, _rest = {}): Counter<Party, number> => {
-        const counts = new DefaultMap<Party, number[]>(() => []);
-        for (const [party, grades] of votes) {
-            for (const [grade, qty] of enumerate(grades)) {
-                counts.get(party).push(...Array(qty).fill(grade));
-            }
-        }
-
-        return NumberCounter.fromEntries([[max(counts.keys(), party => fmean(counts.get(party))), nSeats]]);
+    const attrib = (votes: Scores<Party>, { trace }: TraceOption<Party> = {}): Counter<Party, number> => {
+        const averages = new Map([...votes.entries()]
+            .filter(([_party, grades]) => sum(grades) > 0)
+            .map(([party, grades]) => [party, weightedMean(grades)]));
+        trace?.push({ kind: "scores", attribution: "averageScore", scores: [...averages.entries()] });
+        const winner = highest([...averages.keys()].reverse(), party => averages.get(party)!,
+            tracedTieBreak(tieBreak, trace), scoresContext(votes));
+        return NumberCounter.fromEntries([[winner, nSeats]]);
     }
     attrib.nSeats = nSeats;
     return attrib;
@@ -32,30 +69,27 @@ export function averageScore<Party>(
  * Creates an attribution method in which all the seats go to the candidate with the highest median score.
  *
  * If there is a tie, the contingency method is called on the candidates that are tied.
- * The default contingency is to take the maximum average score.
+ * The default contingency is to take the maximum average score,
+ * using the given tie-breaking policy if the averages are tied too.
  *
  * The ballots are not required to grade all the candidates.
  */
 export function medianScore<Party>(
-    { nSeats, contingency }: {
+    { nSeats, contingency, tieBreak = defaultTieBreak }: {
         nSeats: number,
         contingency?: Attribution<Party, Scores<Party>>,
+        tieBreak?: TieBreak<Party>,
     }
 ): Attribution<Party, Scores<Party>> & HasNSeats {
     if (contingency === undefined) {
-        contingency = averageScore({ nSeats });
+        contingency = averageScore({ nSeats, tieBreak });
     }
 
-    const attrib = (votes: Scores<Party>, rest = {}): Counter<Party, number> => {
-        const counts = new DefaultMap<Party, number[]>(() => []);
-        for (const [party, grades] of votes) {
-            for (const [grade, qty] of enumerate(grades)) {
-                counts.get(party).push(...Array(qty).fill(grade));
-            }
-        }
-
-        const medians = new Map(Array.from(counts.entries(),
-            ([party, partigrades]) => [party, median(partigrades)]));
+    const attrib = (votes: Scores<Party>, rest: TraceOption<Party> = {}): Counter<Party, number> => {
+        const medians = new Map([...votes.entries()]
+            .filter(([_party, grades]) => sum(grades) > 0)
+            .map(([party, grades]) => [party, weightedMedian(grades)]));
+        rest.trace?.push({ kind: "scores", attribution: "medianScore", scores: [...medians.entries()] });
 
         const winScore = Math.max(...medians.values());
         const [winner, ...winners] = [...medians.keys()].filter(p => medians.get(p) === winScore);
@@ -65,9 +99,330 @@ export function medianScore<Party>(
         }
 
         winners.unshift(winner!);
-        const trimmedResults = Scores.fromEntries(winners.map(party => [party, counts.get(party)]));
+        const trimmedResults = Scores.fromEntries(winners.map(party => [party, votes.get(party)]));
         return contingency(trimmedResults, rest);
     };
     attrib.nSeats = nSeats;
     return attrib;
 }
+
+
+/**
+ * Returns the parties graded by at least one ballot, in order of first appearance.
+ */
+function gradedParties<Party>(votes: ScoreProfile<Party>): Party[] {
+    return [...new Set(votes.flatMap(ballot => [...ballot.keys()]))];
+}
+
+/**
+ * Creates an attribution method implementing STAR voting (Score Then Automatic Runoff).
+ * The two candidates with the highest total scores are selected,
+ * then the one graded higher than the other by the most ballots wins all the seats.
+ *
+ * If the runoff is a tie, the candidate with the highest total score wins.
+ *
+ * The ballots are not required to grade all the candidates.
+ *
+ * @param tieBreak The tie-breaking policy, both for the selection of the finalists
+ * and when the finalists are tied in the runoff and in total score.
+ * Defaults to favoring the candidate appearing first in the tally.
+ */
+export function star<Party>(
+    { nSeats, tieBreak = defaultTieBreak }: {
+        nSeats: number,
+        tieBreak?: TieBreak<Party>,
+    }
+): Attribution<Party, ScoreProfile<Party>> & HasNSeats {
+    const attrib = (votes: ScoreProfile<Party>, { trace }: TraceOption<Party> = {}): Counter<Party, number> => {
+        const context = scoreProfileContext(votes);
+        const partyTieBreak = tracedTieBreak(tieBreak, trace);
+        const totals = context.firstRound;
+        trace?.push({ kind: "scores", attribution: "star", scores: [...totals.entries()] });
+
+        const [finalist1, finalist2] = highestN(gradedParties(votes), 2, party => totals.get(party), partyTieBreak, context);
+        if (finalist2 === undefined) {
+            return NumberCounter.fromEntries([[finalist1!, nSeats]]);
+        }
+
+        // the number of ballots preferring each finalist to the other
+        const runoff = NumberCounter.fromEntries([[finalist1!, 0], [finalist2, 0]]);
+        const weights = ballotWeights(votes);
+        for (const [b, ballot] of votes.entries()) {
+            const preference = Math.sign((ballot.get(finalist1!) ?? 0) - (ballot.get(finalist2) ?? 0));
+            if (preference > 0) {
+                runoff.increment(finalist1!, weights[b]!);
+            } else if (preference < 0) {
+                runoff.increment(finalist2, weights[b]!);
+            }
+        }
+        trace?.push({ kind: "scores", attribution: "star", scores: [...runoff.entries()] });
+        let winner: Party;
+        if (runoff.get(finalist1!) !== runoff.get(finalist2)) {
+            winner = runoff.get(finalist1!) > runoff.get(finalist2) ? finalist1! : finalist2;
+        } else {
+            winner = highest([finalist1!, finalist2], party => totals.get(party), partyTieBreak, context);
+        }
+        return NumberCounter.fromEntries([[winner, nSeats]]);
+    };
+    attrib.nSeats = nSeats;
+    return attrib;
+}
+
+/**
+ * Creates an attribution method implementing Reweighted Range Voting,
+ * in which the seats are attributed one at a time to the candidate with the highest weighted total score.
+ * Each ballot weighs c/(c + s/m), where s is the sum of the grades it gave to the already-elected candidates,
+ * and m is the maximum grade.
+ *
+ * Each candidate wins at most one seat.
+ * If fewer candidates are graded than there are seats, fewer than nSeats seats are attributed.
+ *
+ * @param c The reweighting constant. The default, 1, mimics the D'Hondt method,
+ * while 1/2 mimics the Sainte-Laguë method.
+ * @param tieBreak The tie-breaking policy between the candidates having the highest weighted total score.
+ * Defaults to favoring the candidate appearing first in the tally.
+ */
+export function reweightedRangeVoting<Party>(
+    { nSeats, c = 1, tieBreak = defaultTieBreak }: {
+        nSeats: number,
+        c?: number,
+        tieBreak?: TieBreak<Party>,
+    }
+): Attribution<Party, ScoreProfile<Party>> & HasNSeats {
+    const attrib = (votes: ScoreProfile<Party>, { trace }: TraceOption<Party> = {}): Counter<Party, number> => {
+        const context = scoreProfileContext(votes);
+        const partyTieBreak = tracedTieBreak(tieBreak, trace);
+        const hopeful = gradedParties(votes);
+        const elected: Party[] = [];
+        const maxGrade = votes.ngrades - 1;
+        const ballotWeight = ballotWeights(votes);
+
+        while (elected.length < nSeats && hopeful.length > 0) {
+            const weights = votes.map((ballot, b) => ballotWeight[b]! *
+                c / (c + sum(elected.map(party => ballot.get(party) ?? 0)) / maxGrade));
+            const totals = new Map(hopeful.map(party =>
+                [party, sum(votes.map((ballot, b) => weights[b]! * (ballot.get(party) ?? 0)))]));
+
+            const winner = highest(hopeful, party => totals.get(party)!, partyTieBreak, context);
+            trace?.push({ kind: "round", attribution: "reweightedRangeVoting", round: elected.length + 1,
+                tally: [...totals.entries()], elected: [winner], eliminated: [] });
+            hopeful.splice(hopeful.indexOf(winner), 1);
+            elected.push(winner);
+        }
+        return NumberCounter.fromKeys(elected);
+    };
+    attrib.nSeats = nSeats;
+    return attrib;
+}
+
+/**
+ * Creates an attribution method implementing Allocated Score, also known as STAR-PR.
+ * The seats are attributed one at a time to the candidate with the highest weighted total score.
+ * Then, a Hare quota of ballots is allocated to that candidate and spent :
+ * the ballots having given it the highest grades first, the ballots at the grade
+ * where the quota is reached being only partially spent.
+ * If fewer ballots than a quota gave the candidate a non-zero grade, all of these are spent.
+ *
+ * Each candidate wins at most one seat.
+ * If fewer candidates are graded than there are seats, fewer than nSeats seats are attributed.
+ *
+ * @param tieBreak The tie-breaking policy between the candidates having the highest weighted total score.
+ * Defaults to favoring the candidate appearing first in the tally.
+ */
+export function allocatedScore<Party>(
+    { nSeats, tieBreak = defaultTieBreak }: {
+        nSeats: number,
+        tieBreak?: TieBreak<Party>,
+    }
+): Attribution<Party, ScoreProfile<Party>> & HasNSeats {
+    const attrib = (votes: ScoreProfile<Party>, { trace }: TraceOption<Party> = {}): Counter<Party, number> => {
+        const context = scoreProfileContext(votes);
+        const partyTieBreak = tracedTieBreak(tieBreak, trace);
+        const hopeful = gradedParties(votes);
+        const elected: Party[] = [];
+        const quota = totalWeight(votes) / nSeats;
+        // the remaining weight of each ballot
+        const weights = [...ballotWeights(votes)];
+
+        while (elected.length < nSeats && hopeful.length > 0) {
+            const totals = new Map(hopeful.map(party =>
+                [party, sum(votes.map((ballot, b) => weights[b]! * (ballot.get(party) ?? 0)))]));
+
+            const winner = highest(hopeful, party => totals.get(party)!, partyTieBreak, context);
+            trace?.push({ kind: "round", attribution: "allocatedScore", round: elected.length + 1,
+                tally: [...totals.entries()], elected: [winner], eliminated: [] });
+            hopeful.splice(hopeful.indexOf(winner), 1);
+            elected.push(winner);
+
+            // the remaining weight of the ballots having given each grade to the winner
+            const weightsByGrade = new DefaultMap<number, number>(() => 0);
+            for (const [b, ballot] of votes.entries()) {
+                const grade = ballot.get(winner) ?? 0;
+                if (grade > 0) {
+                    weightsByGrade.set(grade, weightsByGrade.get(grade) + weights[b]!);
+                }
+            }
+
+            // the fraction of its remaining weight each ballot spends, by the grade it gave the winner
+            const spentFractions = new Map<number, number>();
+            let remainingQuota = quota;
+            for (const grade of [...weightsByGrade.keys()].sort((a, b) => b - a)) {
+                const gradeWeight = weightsByGrade.get(grade);
+                const spent = Math.min(1, remainingQuota / gradeWeight);
+                spentFractions.set(grade, spent);
+                remainingQuota -= spent * gradeWeight;
+                if (remainingQuota <= 0) {
+                    break;
+                }
+            }
+            for (const [b, ballot] of votes.entries()) {
+                const spent = spentFractions.get(ballot.get(winner) ?? 0);
+                if (spent !== undefined) {
+                    weights[b]! *= 1 - spent;
+                }
+            }
+        }
+        return NumberCounter.fromKeys(elected);
+    };
+    attrib.nSeats = nSeats;
+    return attrib;
+}
+
+
+/**
+ * The distribution of the grades received by a candidate,
+ * as used by the Majority Judgment.
+ */
+export interface MeritProfile {
+    /**
+     * The share of the grades received that are equal to each grade,
+     * from the lowest grade to the highest.
+     */
+    readonly shares: readonly number[];
+    /**
+     * The majority grade, which is the lower median of the grades received.
+     */
+    readonly majorityGrade: number;
+    /**
+     * The share of the grades received that are higher than the majority grade.
+     */
+    readonly proponents: number;
+    /**
+     * The share of the grades received that are lower than the majority grade.
+     */
+    readonly opponents: number;
+}
+
+/**
+ * Returns the index of the lower median value of the grades,
+ * given as the number of times each grade was given, which need not be integers.
+ */
+function lowerMedianGrade(grades: readonly number[]): number {
+    const half = sum(grades) / 2;
+    let seen = 0;
+    for (const [grade, qty] of enumerate(grades)) {
+        seen += qty;
+        if (qty > 0 && seen >= half) {
+            return grade;
+        }
+    }
+    return 0;
+}
+
+/**
+ * Computes the merit profile of each candidate, from which the Majority Judgment attributions are decided.
+ * This is useful to display how and why a candidate won.
+ */
+export function meritProfiles<Party>(votes: Scores<Party>): Map<Party, MeritProfile> {
+    return new Map(Array.from(votes, ([party, grades]) => {
+        const total = sum(grades);
+        const majorityGrade = lowerMedianGrade(grades);
+        return [party, {
+            shares: grades.map(qty => qty / total),
+            majorityGrade,
+            proponents: sum(grades.slice(majorityGrade + 1)) / total,
+            opponents: sum(grades.slice(0, majorityGrade)) / total,
+        }];
+    }));
+}
+
+/**
+ * Compares two candidates following the majority gauge,
+ * by removing the median grades of each, one by one, until their medians differ.
+ * When the numbers of grades are not integers, less than a whole grade is removed at once
+ * when less than that remains at either median, so that the same weight is always removed from both.
+ *
+ * @returns A positive value if a ranks higher than b,
+ * a negative value if b ranks higher than a, 0 if they are perfectly tied.
+ */
+function compareByMedianRemoval(a: readonly number[], b: readonly number[]): number {
+    const aGrades = a.slice();
+    const bGrades = b.slice();
+    while (sum(aGrades) > 0 && sum(bGrades) > 0) {
+        const aMedian = lowerMedianGrade(aGrades);
+        const bMedian = lowerMedianGrade(bGrades);
+        if (aMedian !== bMedian) {
+            return aMedian - bMedian;
+        }
+        const removed = Math.min(1, aGrades[aMedian]!, bGrades[bMedian]!);
+        aGrades[aMedian]! -= removed;
+        bGrades[bMedian]! -= removed;
+    }
+    return 0;
+}
+
+/**
+ * Creates an attribution method implementing the Majority Judgment,
+ * in which all the seats go to the candidate with the highest majority grade,
+ * which is the lower median of the grades it received.
+ *
+ * The ties between candidates having the same majority grade are broken following the variant parameter :
+ * - "majorityGauge" (the default) is the original Balinski-Laraki rule,
+ * in which the majority grade of each tied candidate is removed from its grades, one at a time,
+ * until the new majority grades differ.
+ * - "usual" is the Usual Judgment, in which the candidates are ranked by
+ * α + (p - q) / (2 * (1 - p - q)),
+ * α being the majority grade, p the share of proponents and q the share of opponents.
+ * - "typical" is the Typical Judgment, in which the candidates are ranked by
+ * α + (p - q) / 2.
+ *
+ * If the candidates are still tied, the tieBreak policy decides between them,
+ * and defaults to favoring the candidate appearing first in the tally.
+ *
+ * The ballots are not required to grade all the candidates :
+ * the shares are computed among the grades each candidate received.
+ *
+ * The meritProfiles function gives the data the attribution is based upon.
+ */
+export function majorityJudgment<Party>(
+    { nSeats, variant = "majorityGauge", tieBreak = defaultTieBreak }: {
+        nSeats: number,
+        variant?: "majorityGauge" | "usual" | "typical",
+        tieBreak?: TieBreak<Party>,
+    }
+): Attribution<Party, Scores<Party>> & HasNSeats {
+    const attrib = (votes: Scores<Party>, { trace }: TraceOption<Party> = {}): Counter<Party, number> => {
+        const profiles = meritProfiles(votes);
+        const parties = [...profiles.keys()];
+        trace?.push({ kind: "scores", attribution: "majorityJudgment",
+            scores: Array.from(profiles, ([party, { majorityGrade }]) => [party, majorityGrade]) });
+
+        let compare: (a: Party, b: Party) => number;
+        if (variant === "majorityGauge") {
+            compare = (a, b) => compareByMedianRemoval(votes.get(a), votes.get(b));
+        } else {
+            const values = new Map(Array.from(profiles, ([party, { majorityGrade, proponents, opponents }]) => {
+                const denominator = variant === "usual" ? 2 * (1 - proponents - opponents) : 2;
+                return [party, majorityGrade + (proponents - opponents) / denominator];
+            }));
+            compare = (a, b) => values.get(a)! - values.get(b)!;
+        }
+
+        const best = parties.reduce((a, b) => compare(b, a) > 0 ? b : a);
+        const [winner] = breakTie(parties.filter(party => compare(party, best) === 0),
+            tracedTieBreak(tieBreak, trace), scoresContext(votes));
+        return NumberCounter.fromEntries([[winner!, nSeats]]);
+    };
+    attrib.nSeats = nSeats;
+    return attrib;
+}
@@ -0,0 +1,264 @@
+import { NumberCounter } from "@gouvernathor/python/collections";
+import { createRandomObj, type RandomObjParam } from "../../utils";
+import { type ApprovalProfile, ballotWeights, type Order, type Pairwise, type ScoreProfile, type Scores, type Simple } from "../tally";
+import { TieFailure } from "../attribution/base";
+
+/**
+ * What a tie-breaking policy may know about the votes.
+ */
+export interface TieBreakContext<Party> {
+    /**
+     * A simple tally of the votes :
+     * the votes themselves for the attributions taking simple ballots,
+     * the first preferences for the attributions taking ranked ballots,
+     * the Borda scores for the attributions taking pairwise preferences,
+     * and the number of approvals or the sum of the grades
+     * for the attributions taking approval or score ballots.
+     */
+    readonly firstRound: Simple<Party>;
+}
+
+/**
+ * A tie-breaking policy, deciding which of several tied parties an attribution favors.
+ *
+ * It is only called when there is an actual tie,
+ * and generally only when the tie affects the result of the attribution.
+ *
+ * @param tied The tied parties, at least two, in the order in which the attribution favors them by default,
+ * as documented by each attribution. That is often, but not always, the order in which they appear in the tally.
+ * @param context Information about the votes.
+ * @returns The same parties, ordered from the most favored to the least favored.
+ */
+export interface TieBreak<Party> {
+    (tied: readonly Party[], context: TieBreakContext<Party>): Party[];
+}
+
+/**
+ * Creates a tie-breaking policy which orders the tied parties at random.
+ *
+ * The randomization is based on the given parameters. If a RNG object
+ * is passed, it is used without reseeding across all ties.
+ * If a seed is passed, the random object is reseeded at each tie.
+ */
+export function randomTieBreak<Party>(
+    randomParam: RandomObjParam = {},
+): TieBreak<Party> {
+    return tied => createRandomObj(randomParam).shuffled(tied);
+}
+
+/**
+ * Creates a tie-breaking policy which favors the parties coming first in the given order.
+ *
+ * @param order The order of the candidates, from the most favored to the least favored.
+ * Tied parties not in it come after the others, in the order the attribution favors them by default.
+ */
+export function candidateOrderTieBreak<Party>(
+    { order }: {
+        order: Iterable<Party>,
+    }
+): TieBreak<Party> {
+    const ranks = new Map(Array.from(order, (party, i) => [party, i]));
+    const rank = (party: Party) => ranks.get(party) ?? Infinity;
+    return tied => tied.slice().sort((a, b) => (rank(a) - rank(b)) || 0);
+}
+
+/**
+ * Creates a tie-breaking policy which favors the parties having the most votes
+ * in the first round (see TieBreakContext).
+ *
+ * @param fallback The policy deciding between the parties also tied in the first round.
+ * Defaults to defaultTieBreak.
+ */
+export function mostVotesTieBreak<Party>(
+    { fallback = defaultTieBreak }: {
+        fallback?: TieBreak<Party>,
+    } = {}
+): TieBreak<Party> {
+    return (tied, context) => {
+        const { firstRound } = context;
+        const values = [...new Set(tied.map(party => firstRound.get(party)))].sort((a, b) => b - a);
+        return values.flatMap(value => {
+            const group = tied.filter(party => firstRound.get(party) === value);
+            return group.length > 1 ? fallback(group, context) : group;
+        });
+    };
+}
+
+/**
+ * Creates a tie-breaking policy which makes the attribution fail,
+ * throwing a TieFailure error listing the tied parties.
+ */
+export function failTieBreak<Party>(): TieBreak<Party> {
+    return tied => {
+        throw new TieFailure(tied);
+    };
+}
+
+/**
+ * The tie-breaking policy used by default by the attributions,
+ * which keeps the tied parties in the order the attribution favors them by default.
+ * That order reproduces how each attribution broke ties before taking a tie-breaking policy.
+ */
+export function defaultTieBreak<Party>(tied: readonly Party[]): Party[] {
+    return tied.slice();
+}
+
+
+/**
+ * Creates a context computing its first round only if needed.
+ */
+function lazyContext<Party>(compute: () => Simple<Party>): TieBreakContext<Party> {
+    let firstRound: Simple<Party> | undefined;
+    return {
+        get firstRound() {
+            return firstRound ??= compute();
+        },
+    };
+}
+
+export function simpleContext<Party>(votes: Simple<Party>): TieBreakContext<Party> {
+    return { firstRound: votes };
+}
+
+export function orderContext<Party>(votes: Order<Party>): TieBreakContext<Party> {
+    return lazyContext(() => {
+        const firstPlaces = NumberCounter.fromEntries<Party>();
+        const weights = ballotWeights(votes);
+        for (const [b, ballot] of votes.entries()) {
+            if (ballot.length > 0) {
+                firstPlaces.increment(ballot[0]!, weights[b]!);
+            }
+        }
+        return firstPlaces;
+    });
+}
+
+export function pairwiseContext<Party>(votes: Order<Party> | Pairwise<Party>): TieBreakContext<Party> {
+    if (Array.isArray(votes)) {
+        return orderContext(votes as Order<Party>);
+    }
+    return lazyContext(() => NumberCounter.fromEntries(Array.from(votes as Pairwise<Party>,
+        ([party, preferences]) => [party, preferences.total])));
+}
+
+export function approvalContext<Party>(votes: ApprovalProfile<Party>): TieBreakContext<Party> {
+    return lazyContext(() => {
+        const approvals = NumberCounter.fromEntries<Party>();
+        for (const [approved, count] of votes) {
+            for (const party of approved) {
+                approvals.increment(party, count);
+            }
+        }
+        return approvals;
+    });
+}
+
+export function scoresContext<Party>(votes: Scores<Party>): TieBreakContext<Party> {
+    return lazyContext(() => NumberCounter.fromEntries(Array.from(votes,
+        ([party, grades]) => [party, grades.reduce((total, qty, grade) => total + qty * grade, 0)])));
+}
+
+export function scoreProfileContext<Party>(votes: ScoreProfile<Party>): TieBreakContext<Party> {
+    return lazyContext(() => {
+        const totals = NumberCounter.fromEntries<Party>();
+        const weights = ballotWeights(votes);
+        for (const [b, ballot] of votes.entries()) {
+            for (const [party, grade] of ballot) {
+                totals.increment(party, grade * weights[b]!);
+            }
+        }
+        return totals;
+    });
+}
+
+
+/**
+ * Orders the tied parties following the policy, if there are several of them.
+ */
+export function breakTie<Party>(
+    tied: readonly Party[],
+    tieBreak: TieBreak<Party>,
+    context: TieBreakContext<Party>,
+): Party[] {
+    if (tied.length <= 1) {
+        return tied.slice();
+    }
+    return tieBreak(tied, context);
+}
+
+/**
+ * Returns the party having the highest value,
+ * the ties being broken by the policy.
+ */
+export function highest<Party>(
+    parties: readonly Party[],
+    value: (party: Party) => number,
+    tieBreak: TieBreak<Party>,
+    context: TieBreakContext<Party>,
+): Party {
+    return highestN(parties, 1, value, tieBreak, context)[0]!;
+}
+
+/**
+ * Returns the party having the lowest value,
+ * the ties being broken against the party the policy favors the least.
+ */
+export function lowest<Party>(
+    parties: readonly Party[],
+    value: (party: Party) => number,
+    tieBreak: TieBreak<Party>,
+    context: TieBreakContext<Party>,
+): Party {
+    return lowestN(parties, 1, value, tieBreak, context)[0]!;
+}
+
+/**
+ * Returns the n parties having the highest values, by decreasing value,
+ * the ties at the cut being broken by the policy.
+ */
+export function highestN<Party>(
+    parties: readonly Party[],
+    n: number,
+    value: (party: Party) => number,
+    tieBreak: TieBreak<Party>,
+    context: TieBreakContext<Party>,
+): Party[] {
+    return selectN(parties, n, party => -value(party), tied => breakTie(tied, tieBreak, context));
+}
+
+/**
+ * Returns the n parties having the lowest values, by increasing value,
+ * the ties at the cut being broken against the parties the policy favors the least.
+ */
+export function lowestN<Party>(
+    parties: readonly Party[],
+    n: number,
+    value: (party: Party) => number,
+    tieBreak: TieBreak<Party>,
+    context: TieBreakContext<Party>,
+): Party[] {
+    return selectN(parties, n, value, tied => breakTie(tied, tieBreak, context).reverse());
+}
+
+function selectN<Party>(
+    parties: readonly Party[],
+    n: number,
+    value: (party: Party) => number,
+    order: (tied: readonly Party[]) => Party[],
+): Party[] {
+    const values = new Map(parties.map(party => [party, value(party)]));
+    const sorted = parties.slice().sort((a, b) => values.get(a)! - values.get(b)!);
+    if (n <= 0) {
+        return [];
+    }
+    if (n >= sorted.length) {
+        return sorted;
+    }
+    const cutValue = values.get(sorted[n - 1]!)!;
+    if (values.get(sorted[n]!) !== cutValue) {
+        return sorted.slice(0, n);
+    }
+    const selected = sorted.filter(party => values.get(party)! < cutValue);
+    const tied = parties.filter(party => values.get(party) === cutValue);
+    return selected.concat(order(tied).slice(0, n - selected.length));
+}
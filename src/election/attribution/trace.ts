@@ -0,0 +1,177 @@
+import { type Counter } from "@gouvernathor/python/collections";
+import { type Pairwise } from "../tally";
+import { type Attribution } from "../attribution/base";
+import { type TieBreak } from "./tieBreak";
+
+/**
+ * The value of each party, such as its votes or its score.
+ */
+export type PartyValues<Party> = [Party, number][];
+
+/**
+ * The scores or votes from which an attribution designates its winner.
+ */
+export interface ScoresStep<Party> {
+    readonly kind: "scores";
+    readonly attribution: string;
+    readonly scores: PartyValues<Party>;
+}
+
+/**
+ * A round of an attribution electing or eliminating parties one round at a time.
+ */
+export interface RoundStep<Party> {
+    readonly kind: "round";
+    readonly attribution: string;
+    /**
+     * The number of the round, starting at 1.
+     */
+    readonly round: number;
+    /**
+     * The value of each party still in the running, from which the round is decided :
+     * its votes, weighted votes or score, or for some methods its cost.
+     */
+    readonly tally: PartyValues<Party>;
+    readonly elected: Party[];
+    readonly eliminated: Party[];
+}
+
+/**
+ * The attribution of a seat by a rank-index method, such as a divisor method.
+ * The successive steps form the table of the quotients having won a seat.
+ */
+export interface RankIndexStep<Party> {
+    readonly kind: "rankIndex";
+    readonly attribution: string;
+    /**
+     * The number of the seat, starting at 1, counting any initial seats.
+     */
+    readonly seat: number;
+    readonly party: Party;
+    /**
+     * The rank-index value, or quotient, with which the party won the seat.
+     */
+    readonly value: number;
+}
+
+/**
+ * The computation of a largest-remainders attribution.
+ */
+export interface RemaindersStep<Party> {
+    readonly kind: "remainders";
+    readonly attribution: string;
+    /**
+     * The number of votes worth a seat.
+     */
+    readonly quota: number;
+    /**
+     * The seats won by each party with full quotas.
+     */
+    readonly fullSeats: PartyValues<Party>;
+    readonly remainders: PartyValues<Party>;
+    /**
+     * The seats won, or taken back (as negative values), because of the remainders.
+     */
+    readonly remainderSeats: PartyValues<Party>;
+}
+
+/**
+ * The pairwise preferences between the parties :
+ * for each party, the number of ballots preferring it to each other party.
+ */
+export interface PairwiseStep<Party> {
+    readonly kind: "pairwise";
+    readonly attribution: string;
+    readonly preferences: [Party, PartyValues<Party>][];
+}
+
+/**
+ * The parties reaching a threshold of votes.
+ */
+export interface ThresholdStep<Party> {
+    readonly kind: "threshold";
+    readonly attribution: string;
+    /**
+     * The number of votes a party needed to reach.
+     */
+    readonly votesThreshold: number;
+    readonly eligible: Party[];
+}
+
+/**
+ * A tie broken by a tie-breaking policy.
+ */
+export interface TieStep<Party> {
+    readonly kind: "tie";
+    readonly tied: Party[];
+    /**
+     * The tied parties, from the most favored to the least favored.
+     */
+    readonly order: Party[];
+}
+
+/**
+ * A step of the computation of an attribution, as recorded in a trace.
+ * It only consists of plain objects, arrays, numbers, strings and parties,
+ * so that it can be serialized as long as the parties can.
+ */
+export type AttributionStep<Party> =
+    | ScoresStep<Party>
+    | RoundStep<Party>
+    | RankIndexStep<Party>
+    | RemaindersStep<Party>
+    | PairwiseStep<Party>
+    | ThresholdStep<Party>
+    | TieStep<Party>;
+
+/**
+ * The standard option, passed through the rest parameter of an Attribution,
+ * for the attributions supporting to record the steps of their computation.
+ *
+ * The steps are pushed to the given array, in order.
+ * Attributions calling other attributions, such as contingencies,
+ * pass the option along, so that the steps of all of them are recorded in the same trace.
+ */
+export interface TraceOption<Party> {
+    trace?: AttributionStep<Party>[];
+}
+
+/**
+ * Calls the attribution, recording the steps of its computation.
+ *
+ * The attributions not supporting the trace option record nothing.
+ */
+export function traceAttribution<Party, Tally>(
+    attribution: Attribution<Party, Tally>,
+    votes: Tally,
+    rest: Record<string, any> = {},
+): { seats: Counter<Party, number>, trace: AttributionStep<Party>[] } {
+    const trace: AttributionStep<Party>[] = [];
+    const seats = attribution(votes, { ...rest, trace });
+    return { seats, trace };
+}
+
+/**
+ * Returns a tie-breaking policy recording the ties it breaks to the trace, if any.
+ */
+export function tracedTieBreak<Party>(
+    tieBreak: TieBreak<Party>,
+    trace: AttributionStep<Party>[] | undefined,
+): TieBreak<Party> {
+    if (trace === undefined) {
+        return tieBreak;
+    }
+    return (tied, context) => {
+        const order = tieBreak(tied, context);
+        trace.push({ kind: "tie", tied: tied.slice(), order: order.slice() });
+        return order;
+    };
+}
+
+export function pairwiseStep<Party>(attribution: string, pairwise: Pairwise<Party>): PairwiseStep<Party> {
+    return {
+        kind: "pairwise",
+        attribution,
+        preferences: Array.from(pairwise, ([party, preferences]) => [party, [...preferences.entries()]]),
+    };
+}
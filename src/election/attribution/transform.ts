@@ -1,6 +1,9 @@
 import { Counter, NumberCounter } from "@gouvernathor/python/collections";
 import { type Simple } from "../tally";
-import { type Attribution, AttributionFailure } from "../attribution/base";
+import { type Attribution, AttributionFailure, type HasNSeats } from "../attribution/base";
+import { type Proportional } from "./proportionalBase";
+import { defaultTieBreak, highest, simpleContext, type TieBreak } from "./tieBreak";
+import { type TraceOption } from "./trace";
 
 /**
  * Transforms a standard proportional attribution method into one that requires a certain threshold
@@ -35,11 +38,13 @@ export function addThresholdToSimpleAttribution<Party>(
         contingency?: Attribution<Party, Simple<Party>> | null,
     }
 ): Attribution<Party, Simple<Party>> {
-    const attrib = (votes: Simple<Party>, rest = {}): Counter<Party, number> => {
+    const attrib = (votes: Simple<Party>, rest: TraceOption<Party> = {}): Counter<Party, number> => {
         if (threshold > 0) {
             const original_votes = votes;
             const votes_threshold = threshold * votes.total;
             votes = NumberCounter.fromEntries([...votes.entries()].filter(([_, v]) => v >= votes_threshold));
+            rest.trace?.push({ kind: "threshold", attribution: "addThresholdToSimpleAttribution",
+                votesThreshold: votes_threshold, eligible: [...votes.keys()] });
             if (votes.size === 0) {
                 if (contingency === null) {
                     throw new AttributionFailure("No party reached the threshold");
@@ -51,3 +56,154 @@ export function addThresholdToSimpleAttribution<Party>(
     };
     return attrib;
 }
+
+/**
+ * Transforms a proportional attribution method so as to support list alliances,
+ * or apparentements, as in Switzerland, Israel or the Netherlands.
+ *
+ * The parties of each alliance are grouped for the first apportionment,
+ * the votes of an alliance being the sum of the votes of its parties.
+ * Then, the seats won by each alliance are apportioned among its parties,
+ * following the inner attribution.
+ * The parties not part of any alliance take part in the first apportionment on their own.
+ *
+ * The rest parameter is not passed to the wrapped attributions,
+ * since its options would concern either the parties or the alliances, but not both.
+ *
+ * @param attribution The attribution method for the first apportionment,
+ * in which each alliance is represented by the array of its parties.
+ * @param alliances The groups of parties forming an alliance. A party should be part of at most one alliance.
+ * @param innerAttribution A function creating the attribution method splitting the seats of an alliance
+ * among its parties, given the number of seats won by the alliance.
+ */
+export function addListAlliances<Party>(
+    { attribution, alliances, innerAttribution }: {
+        attribution: Proportional<readonly Party[]> & HasNSeats,
+        alliances: Iterable<Iterable<Party>>,
+        innerAttribution: (p: { nSeats: number }) => Proportional<Party>,
+    }
+): Proportional<Party> & HasNSeats;
+export function addListAlliances<Party>(
+    { attribution, alliances, innerAttribution }: {
+        attribution: Proportional<readonly Party[]>,
+        alliances: Iterable<Iterable<Party>>,
+        innerAttribution: (p: { nSeats: number }) => Proportional<Party>,
+    }
+): Proportional<Party>;
+export function addListAlliances<Party>(
+    { attribution, alliances, innerAttribution }: {
+        attribution: Proportional<readonly Party[]> & Partial<HasNSeats>,
+        alliances: Iterable<Iterable<Party>>,
+        innerAttribution: (p: { nSeats: number }) => Proportional<Party>,
+    }
+): Proportional<Party> & Partial<HasNSeats> {
+    const allianceGroups = Array.from(alliances, alliance => [...alliance]);
+    const allied = new Set(allianceGroups.flat());
+
+    const attrib = (votes: Simple<Party>, _rest = {}): Counter<Party, number> => {
+        // each alliance, or single party, along with its votes
+        const groups = new Map<readonly Party[], number>();
+        for (const alliance of allianceGroups) {
+            const members = alliance.filter(party => votes.has(party));
+            if (members.length > 0) {
+                groups.set(members, members.reduce((total, party) => total + votes.get(party), 0));
+            }
+        }
+        for (const [party, v] of votes) {
+            if (!allied.has(party)) {
+                groups.set([party], v);
+            }
+        }
+
+        const groupSeats = attribution(NumberCounter.fromEntries(groups));
+        const seats = NumberCounter.fromEntries<Party>();
+        for (const [group, nSeats] of groupSeats) {
+            if (nSeats <= 0) {
+                continue;
+            }
+            if (group.length === 1) {
+                seats.increment(group[0]!, nSeats);
+            } else {
+                seats.updateBy(innerAttribution({ nSeats })(
+                    NumberCounter.fromEntries(group.map(party => [party, votes.get(party)]))));
+            }
+        }
+        return seats;
+    };
+    if (attribution.nSeats !== undefined) {
+        attrib.nSeats = attribution.nSeats;
+    }
+    return attrib;
+}
+
+/**
+ * Creates an attribution method giving bonus seats to the party with the most votes,
+ * as in Italy, Greece, or french municipal elections.
+ *
+ * The bonus takes two forms, which can be combined :
+ * - a fixed number of bonus seats, given to the winner before the remaining seats
+ * are apportioned among all the parties, the winner included,
+ * as in Greece or in french municipal elections (where the bonus is half of the seats).
+ * - a guaranteed share of the seats, such that if the winner ends up with fewer seats than that,
+ * it receives exactly that share of the seats, rounded up,
+ * and the remaining seats are apportioned among the other parties, as in Italy.
+ *
+ * If the winner does not reach the minVoteShare of the votes, no bonus is given,
+ * and all the seats are apportioned following the attribution.
+ *
+ * The rest parameter is passed to the wrapped attributions.
+ *
+ * @param attribution A function creating the attribution method apportioning the seats
+ * which are not bonus seats, given their number, such as webster or jefferson.
+ * It may include a threshold, but the winner is determined from all the votes.
+ * @param bonusSeats The number of fixed bonus seats.
+ * @param majorityShare The share of the seats, between 0 and 1, the winner is guaranteed to receive.
+ * @param minVoteShare The share of the votes the winner needs in order to receive the bonus.
+ * @param tieBreak The tie-breaking policy between the parties having the most votes.
+ * Defaults to favoring the party appearing first in the tally.
+ */
+export function addMajorityBonus<Party>(
+    { nSeats, attribution, bonusSeats = 0, majorityShare = 0, minVoteShare = 0, tieBreak = defaultTieBreak }: {
+        nSeats: number,
+        attribution: (p: { nSeats: number }) => Attribution<Party, Simple<Party>>,
+        bonusSeats?: number,
+        majorityShare?: number,
+        minVoteShare?: number,
+        tieBreak?: TieBreak<Party>,
+    }
+): Attribution<Party, Simple<Party>> & HasNSeats {
+    if (!(0 <= bonusSeats && bonusSeats <= nSeats)) {
+        throw new Error(`The number of bonus seats must be between 0 and ${nSeats}, not ${bonusSeats}`);
+    }
+    if (!(0 <= majorityShare && majorityShare <= 1)) {
+        throw new Error(`The majority share must be between 0 and 1, not ${majorityShare}`);
+    }
+    // the epsilon avoids rounding up a share which is only above an integer because of float errors
+    const majoritySeats = Math.ceil(majorityShare * nSeats - Number.EPSILON * nSeats);
+
+    const attrib = (votes: Simple<Party>, rest = {}): Counter<Party, number> => {
+        if (votes.size === 0) {
+            return attribution({ nSeats })(votes, rest);
+        }
+        const winner = highest([...votes.keys()], party => votes.get(party), tieBreak, simpleContext(votes));
+        if (votes.get(winner) < minVoteShare * votes.total) {
+            return attribution({ nSeats })(votes, rest);
+        }
+
+        let seats = NumberCounter.fromEntries([[winner, bonusSeats]]);
+        if (bonusSeats < nSeats) {
+            seats.updateBy(attribution({ nSeats: nSeats - bonusSeats })(votes, rest));
+        }
+
+        if (seats.get(winner) < majoritySeats) {
+            seats = NumberCounter.fromEntries([[winner, majoritySeats]]);
+            const otherVotes = NumberCounter.fromEntries([...votes.entries()].filter(([party]) => party !== winner));
+            if (majoritySeats < nSeats && otherVotes.size > 0) {
+                seats.updateBy(attribution({ nSeats: nSeats - majoritySeats })(otherVotes, rest));
+            }
+        }
+        return seats;
+    };
+    attrib.nSeats = nSeats;
+    return attrib;
+}
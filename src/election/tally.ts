@@ -1,9 +1,12 @@
-import { ReadonlyCounter } from "@gouvernathor/python/collections";
+import { NumberCounter, ReadonlyCounter } from "@gouvernathor/python/collections";
 
 /**
  * A counter, mapping each party to its number of ballots.
  *
  * [[PS, 5], [LR: 7]] -> 5 ballots for PS, 7 for LR.
+ *
+ * When the voters are weighted, the numbers of ballots are the sums of their weights,
+ * which need not be integers.
  */
 export interface Simple<Candidate> extends ReadonlyCounter<Candidate, number> { }
 
@@ -19,8 +22,179 @@ export interface Simple<Candidate> extends ReadonlyCounter<Candidate, number> {
  * There can be no tie between candidates within a ballot.
  * Note that not ranking all the candidates is permitted by this type,
  * although some attribution methods may not support it.
+ *
+ * If present, the weights give the weight of each ballot, in the same order,
+ * and each ballot otherwise counts as 1.
+ */
+export interface Order<Candidate> extends ReadonlyArray<ReadonlyArray<Candidate>> {
+    readonly weights?: ReadonlyArray<number>;
+}
+
+/**
+ * A tally listing ballots, each of which may be given a weight.
  */
-export interface Order<Candidate> extends ReadonlyArray<ReadonlyArray<Candidate>> { }
+interface WeightedBallots {
+    readonly length: number;
+    readonly weights?: ReadonlyArray<number>;
+}
+
+/**
+ * Returns the weight of each ballot of the tally, in order : 1 each, unless the tally is weighted.
+ */
+export function ballotWeights(votes: WeightedBallots): ReadonlyArray<number> {
+    return votes.weights ?? Array(votes.length).fill(1);
+}
+
+/**
+ * Returns the sum of the weights of the ballots of the tally,
+ * which is the number of ballots unless the tally is weighted.
+ */
+export function totalWeight(votes: WeightedBallots): number {
+    return votes.weights?.reduce((total, weight) => total + weight, 0) ?? votes.length;
+}
+
+/**
+ * A compressed Order : a list of distinct rankings, each with the number of ballots casting it,
+ * given as the weights of the Order.
+ *
+ * [[LR, PS, LFI], [LFI, PS]] with the weights [5, 7] -> 5 voters prefer LR then PS then LFI,
+ * 7 voters prefer LFI then PS and didn't rank LR.
+ *
+ * Being an Order, it can be passed directly to the attribution methods taking an Order,
+ * which then only go through the distinct rankings.
+ * The same ranking should not appear twice.
+ */
+export interface OrderProfile<Candidate> extends Order<Candidate> {
+    readonly weights: ReadonlyArray<number>;
+}
+
+export namespace OrderProfile {
+    /**
+     * Groups the identical rankings, summing their weights.
+     */
+    export function fromRankings<Candidate>(
+        rankings: Iterable<readonly [ReadonlyArray<Candidate>, number]>,
+    ): OrderProfile<Candidate> {
+        const indices = new Map<Candidate, number>();
+        const index = (candidate: Candidate) => {
+            if (!indices.has(candidate)) {
+                indices.set(candidate, indices.size);
+            }
+            return indices.get(candidate)!;
+        };
+
+        const positions = new Map<string, number>();
+        const distinct: ReadonlyArray<Candidate>[] = [];
+        const weights: number[] = [];
+        for (const [ranking, weight] of rankings) {
+            const key = ranking.map(index).join();
+            const position = positions.get(key);
+            if (position === undefined) {
+                positions.set(key, distinct.length);
+                distinct.push(ranking);
+                weights.push(weight);
+            } else {
+                weights[position]! += weight;
+            }
+        }
+        return Object.assign(distinct, { weights });
+    }
+
+    /**
+     * Compresses an Order, keeping its weights if it has any.
+     */
+    export function fromOrder<Candidate>(votes: Order<Candidate>): OrderProfile<Candidate> {
+        const weights = ballotWeights(votes);
+        return fromRankings(votes.map((ranking, b) => [ranking, weights[b]!] as const));
+    }
+
+    /**
+     * Expands the profile to an unweighted Order, with one ballot per voter.
+     * The numbers of ballots must be integers.
+     */
+    export function toOrder<Candidate>(votes: OrderProfile<Candidate>): Order<Candidate> {
+        return votes.flatMap((ranking, b) => {
+            const count = votes.weights[b]!;
+            if (!Number.isInteger(count)) {
+                throw new Error(`Cannot expand a non-integer number of ballots (${count})`);
+            }
+            return Array<ReadonlyArray<Candidate>>(count).fill(ranking);
+        });
+    }
+}
+
+/**
+ * A list of distinct approval ballots, each with the number of ballots approving exactly that set of parties.
+ *
+ * [[{PS, LFI}, 5], [{LR}, 7], [{}, 1]] -> 5 voters approved PS and LFI,
+ * 7 voters approved LR only, and one voter approved no party.
+ *
+ * When the voters are weighted, the numbers are the sums of their weights.
+ *
+ * The same set of parties should not appear twice.
+ */
+export interface ApprovalProfile<Candidate> extends ReadonlyArray<readonly [ReadonlySet<Candidate>, number]> { }
+
+/**
+ * A matrix of pairwise preferences, mapping each party to a counter
+ * of the number of ballots preferring it over each other party.
+ *
+ * [[PS, [[LR, 5], [LFI, 7]]], ] -> 5 ballots prefer PS to LR, 7 prefer PS to LFI.
+ *
+ * Every party is mapped, even one which no ballot prefers to any other party.
+ * Any party not mapped will be assumed to have an empty counter.
+ *
+ * result.get(a).get(b) + result.get(b).get(a) <= number of ballots (or their total weight)
+ */
+export interface Pairwise<Candidate> extends ReadonlyMap<Candidate, Simple<Candidate>> {
+    get(key: Candidate): Simple<Candidate>;
+}
+
+class BasePairwise<Candidate>
+        extends Map<Candidate, Simple<Candidate>>
+        implements Pairwise<Candidate> {
+    override get(key: Candidate): Simple<Candidate> {
+        return super.get(key) ?? NumberCounter.fromEntries();
+    }
+}
+
+export namespace Pairwise {
+    /**
+     * Computes the pairwise preferences from ranked ballots.
+     *
+     * By default, a ballot ranking a party is considered to prefer it
+     * to any party it does not rank, if that party is ranked by another ballot.
+     * If rankedOverUnranked is false, a ballot only compares the parties it ranks.
+     * Either way, two parties unranked by a ballot are not compared by that ballot.
+     */
+    export function fromOrder<Candidate>(
+        votes: Order<Candidate>,
+        { rankedOverUnranked = true }: {
+            rankedOverUnranked?: boolean,
+        } = {},
+    ): Pairwise<Candidate> {
+        const candidates = new Set(votes.flat());
+        const counts = new Map(Array.from(candidates, party => [party, NumberCounter.fromEntries<Candidate>()]));
+        const weights = ballotWeights(votes);
+        for (const [b, ballot] of votes.entries()) {
+            const weight = weights[b]!;
+            const unranked = new Set(rankedOverUnranked ? candidates : []);
+            for (const party of ballot) {
+                unranked.delete(party);
+            }
+            for (const [i, party1] of ballot.entries()) {
+                const partyCounter = counts.get(party1)!;
+                for (const party2 of ballot.slice(i + 1)) {
+                    partyCounter.increment(party2, weight);
+                }
+                for (const party2 of unranked) {
+                    partyCounter.increment(party2, weight);
+                }
+            }
+        }
+        return new BasePairwise(counts);
+    }
+}
 
 /**
  * A mapping from each party to a list of number of ballots, one for each grade.
@@ -30,7 +204,7 @@ export interface Order<Candidate> extends ReadonlyArray<ReadonlyArray<Candidate>
  * result.get(p).length is constant, equal to the number of grades of the voting method.
  *
  * If the voter must grade all the candidates, then sum(result.get(p)) is constant
- * and equal to the number of voters.
+ * and equal to the number of voters, or to the sum of their weights if they are weighted.
  *
  * Any party not mapped will be assumed to have
  * an array of zeros (of length ngrades).
@@ -73,3 +247,87 @@ export namespace Scores {
         return ths as Scores<Candidate>;
     }
 }
+
+/**
+ * A list of score ballots, each mapping parties to the grade given to them by one voter.
+ *
+ * [{PS: 4, LR: 0, LFI: 2}, {PS: 1, LR: 3}] -> one voter gave the grade 4 to PS, 0 to LR and 2 to LFI,
+ * another gave 1 to PS, 3 to LR and did not grade LFI.
+ *
+ * Unlike Scores, this keeps track of which grades were given together by the same voter.
+ *
+ * The grades go from 0, inclusive, to ngrades, exclusive.
+ * A party not graded by a ballot is considered to have received the grade 0.
+ *
+ * If present, the weights give the weight of each ballot, in the same order,
+ * and each ballot otherwise counts as 1.
+ */
+export interface ScoreProfile<Candidate> extends ReadonlyArray<ReadonlyMap<Candidate, number>> {
+    readonly ngrades: number;
+    readonly weights?: ReadonlyArray<number>;
+}
+
+/**
+ * The participation in a vote, counting the registered voters,
+ * the valid ballots (those counted in the tally), and the blank and null ballots.
+ *
+ * A blank ballot expresses no choice, and a null (or spoiled) ballot is invalid,
+ * but both are cast, unlike the abstentions.
+ *
+ * When the voters are weighted, each of these counts is the sum of the voters' weights.
+ */
+export class Turnout {
+    constructor(
+        public readonly registered: number,
+        public readonly validBallots: number,
+        public readonly blankBallots = 0,
+        public readonly nullBallots = 0,
+    ) { }
+
+    /**
+     * The number of ballots cast, valid or not.
+     */
+    get ballotsCast(): number {
+        return this.validBallots + this.blankBallots + this.nullBallots;
+    }
+
+    get abstentions(): number {
+        return this.registered - this.ballotsCast;
+    }
+
+    /**
+     * Returns the share of the ballots cast over the registered voters.
+     */
+    get rate(): number {
+        return this.ballotsCast / this.registered;
+    }
+
+    /**
+     * Returns the share of the registered voters represented by the given number of votes.
+     */
+    ofRegistered(votes: number): number {
+        return votes / this.registered;
+    }
+
+    /**
+     * Returns the share of the ballots cast, including the blank and null ones,
+     * represented by the given number of votes.
+     */
+    ofBallotsCast(votes: number): number {
+        return votes / this.ballotsCast;
+    }
+
+    /**
+     * Returns the share of the valid ballots represented by the given number of votes.
+     */
+    ofValidBallots(votes: number): number {
+        return votes / this.validBallots;
+    }
+}
+
+/**
+ * A tally which records the turnout of the vote it counts.
+ */
+export interface WithTurnout {
+    readonly turnout: Turnout;
+}
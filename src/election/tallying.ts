@@ -1,37 +1,135 @@
 import { NumberCounter, DefaultMap } from "@gouvernathor/python/collections";
 import { Approval, Ranked, Score, Single } from "./ballot";
-import { Simple, Order, Scores } from "./tally";
+import { Simple, Order, OrderProfile, Scores, ApprovalProfile, ScoreProfile } from "./tally";
+
+/**
+ * The option of the tallying functions giving a weight to each ballot,
+ * in the same order as the ballots. By default, each ballot counts as 1.
+ */
+export interface WeightsOption {
+    weights?: Iterable<number>;
+}
+
+/**
+ * Yields the ballots along with their weights, going through both lazily.
+ */
+function* weighted<Ballot>(
+    ballots: Iterable<Ballot>,
+    weights: Iterable<number> | undefined,
+): Generator<[Ballot, number]> {
+    const weightsIterator = weights?.[Symbol.iterator]();
+    for (const ballot of ballots) {
+        if (weightsIterator === undefined) {
+            yield [ballot, 1];
+            continue;
+        }
+        const weight = weightsIterator.next();
+        if (weight.done) {
+            throw new Error("There are fewer weights than ballots");
+        }
+        yield [ballot, weight.value];
+    }
+    if (weightsIterator !== undefined && !weightsIterator.next().done) {
+        throw new Error("There are more weights than ballots");
+    }
+}
 
 export function tallySingleToSimple<Candidate>(
     ballots: Iterable<Single<Candidate>>,
+    { weights }: WeightsOption = {},
 ): Simple<Candidate> {
-    return NumberCounter.fromKeys(ballots);
+    if (weights === undefined) {
+        return NumberCounter.fromKeys(ballots);
+    }
+    const counts = NumberCounter.fromEntries<Candidate>();
+    for (const [ballot, weight] of weighted(ballots, weights)) {
+        counts.increment(ballot, weight);
+    }
+    return counts;
 }
 
 export function tallyApprovalToSimple<Candidate>(
     ballots: Iterable<Approval<Candidate>>,
+    { weights }: WeightsOption = {},
 ): Simple<Candidate> {
-    return NumberCounter.fromKeys(Array.from(ballots).flatMap(b => Array.from(b)));
+    if (weights === undefined) {
+        return NumberCounter.fromKeys(Array.from(ballots).flatMap(b => Array.from(b)));
+    }
+    const counts = NumberCounter.fromEntries<Candidate>();
+    for (const [ballot, weight] of weighted(ballots, weights)) {
+        for (const candidate of ballot) {
+            counts.increment(candidate, weight);
+        }
+    }
+    return counts;
+}
+
+/**
+ * Unlike tallyApprovalToSimple, this keeps track of which parties were approved together.
+ * Ballots approving the same parties are grouped together, regardless of the order of the parties.
+ */
+export function tallyApprovalToApprovalProfile<Candidate>(
+    ballots: Iterable<Approval<Candidate>>,
+    { weights }: WeightsOption = {},
+): ApprovalProfile<Candidate> {
+    const indices = new Map<Candidate, number>();
+    const index = (candidate: Candidate) => {
+        if (!indices.has(candidate)) {
+            indices.set(candidate, indices.size);
+        }
+        return indices.get(candidate)!;
+    };
+
+    const profile = new Map<string, [Approval<Candidate>, number]>();
+    for (const [ballot, weight] of weighted(ballots, weights)) {
+        const key = Array.from(ballot, index).sort((a, b) => a - b).join();
+        const entry = profile.get(key);
+        if (entry === undefined) {
+            profile.set(key, [ballot, weight]);
+        } else {
+            entry[1] += weight;
+        }
+    }
+    return Array.from(profile.values());
 }
 
 export function tallyRankedToOrder<Candidate>(
     ballots: Iterable<Ranked<Candidate>>,
+    { weights }: WeightsOption = {},
 ): Order<Candidate> {
-    return Array.from(ballots);
+    if (weights === undefined) {
+        return Array.from(ballots);
+    }
+    const entries = Array.from(weighted(ballots, weights));
+    return Object.assign(entries.map(([ballot]) => ballot), { weights: entries.map(([, weight]) => weight) });
+}
+
+/**
+ * Unlike tallyRankedToOrder, this groups the identical rankings together,
+ * without keeping the ballots in memory.
+ */
+export function tallyRankedToOrderProfile<Candidate>(
+    ballots: Iterable<Ranked<Candidate>>,
+    { weights }: WeightsOption = {},
+): OrderProfile<Candidate> {
+    return OrderProfile.fromRankings(weighted(ballots, weights));
 }
 
 /**
  * This function assumes that the scores in each ballot are 0-based,
  * going from 0, inclusive, to nScores, exclusive.
+ *
+ * A ScoreProfile can also be passed as ballots, along with its ngrades value as nScores
+ * and its weights, if any.
  */
 export function tallyScoreToScores<Candidate>(
     ballots: Iterable<Score<Candidate>>,
-    { nScores }: { nScores: number },
+    { nScores, weights }: { nScores: number } & WeightsOption,
 ): Scores<Candidate> {
     const rawScores = new DefaultMap<Candidate, number[]>(() => Array(nScores).fill(0));
-    for (const ballot of ballots) {
+    for (const [ballot, weight] of weighted(ballots, weights)) {
         for (const [candidate, scoreBasedOn0] of ballot.entries()) {
-            rawScores.get(candidate)[scoreBasedOn0]! += 1;
+            rawScores.get(candidate)[scoreBasedOn0]! += weight;
         }
     }
     if (rawScores.size === 0) {
@@ -39,3 +137,21 @@ export function tallyScoreToScores<Candidate>(
     }
     return Scores.fromEntries(Array.from(rawScores.entries()));
 }
+
+/**
+ * This function assumes that the scores in each ballot are 0-based,
+ * going from 0, inclusive, to nScores, exclusive.
+ */
+export function tallyScoreToScoreProfile<Candidate>(
+    ballots: Iterable<Score<Candidate>>,
+    { nScores, weights }: { nScores: number } & WeightsOption,
+): ScoreProfile<Candidate> {
+    if (weights === undefined) {
+        return Object.assign(Array.from(ballots), { ngrades: nScores });
+    }
+    const entries = Array.from(weighted(ballots, weights));
+    return Object.assign(entries.map(([ballot]) => ballot), {
+        ngrades: nScores,
+        weights: entries.map(([, weight]) => weight),
+    });
+}
@@ -1,5 +1,6 @@
 import { min } from "@gouvernathor/python";
 import { ReadonlyCollection } from "@gouvernathor/python/collections/abc";
+import { createRandomObj, type RandomObjParam } from "../utils";
 import { Approval, Ranked, Score, Single } from "./ballot";
 
 export interface DisagreementFunction<T, U> {
@@ -26,15 +27,41 @@ export function singleVote<Voter, Candidate>(
 }
 
 /**
- * The voter ranks all, or (not implemented here) some, of the candidates.
+ * How a ranked ballot is truncated, all the conditions applying together.
+ * By default, the ballot ranks all the candidates.
+ */
+export interface RankingTruncation {
+    /**
+     * The maximum number of candidates ranked.
+     */
+    maxRanks?: number;
+    /**
+     * The candidates the voter disagrees with more than this value are not ranked.
+     */
+    maxDisagreement?: number;
+    /**
+     * If true, only the candidates the voter would approve in an approvalVote are ranked.
+     */
+    approvedOnly?: boolean;
+}
+
+/**
+ * The voter ranks all, or some, of the candidates.
  */
 export function orderingVote<Voter, Candidate>(
-    { disagree }: {
+    { disagree, maxRanks = Infinity, maxDisagreement = Infinity, approvedOnly = false }: {
         disagree: DisagreementFunction<Voter, Candidate>,
-    }
+    } & RankingTruncation
 ): VotingToBallot<Voter, Candidate, Ranked<Candidate>> {
-    return (voter, candidates) =>
-        Array.from(candidates).sort((a, b) => disagree(voter, a) - disagree(voter, b));
+    const approval = approvalVote({ disagree });
+    return (voter, candidates) => {
+        const approved = approvedOnly ? approval(voter, candidates) : null;
+        return Array.from(candidates)
+            .filter(candidate => disagree(voter, candidate) <= maxDisagreement
+                && (approved === null || approved.has(candidate)))
+            .sort((a, b) => disagree(voter, a) - disagree(voter, b))
+            .slice(0, maxRanks);
+    };
 }
 
 /**
@@ -63,7 +90,7 @@ export function cardinalVote<Voter, Candidate>(
     return (voter, candidates) =>
         new Map(Array.from(candidates, candidate => {
             const grade = Math.min(nScores - 1,
-                    Math.floor(nScores) * (1 - disagree(voter, candidate)));
+                    Math.floor(nScores * (1 - disagree(voter, candidate))));
             return [candidate, grade];
         }));
 }
@@ -118,3 +145,143 @@ export function approvalVote<Voter, Candidate>(
             .filter(candidate => scores.get(candidate)! > 0));
     };
 }
+
+
+// strategic voting
+
+/**
+ * The information a strategic voter has about the other voters :
+ * for each candidate, a previous tally of its votes, or an estimate of its share of the votes.
+ * Only the relative values matter. The candidates missing from the poll are expected to get no votes.
+ */
+export type Poll<Candidate> = ReadonlyMap<Candidate, number>;
+
+/**
+ * Returns the candidates by decreasing expected votes.
+ */
+function frontRunners<Candidate>(
+    poll: Poll<Candidate>,
+    candidates: ReadonlyCollection<Candidate>,
+): Candidate[] {
+    return Array.from(candidates).sort((a, b) => (poll.get(b) ?? 0) - (poll.get(a) ?? 0));
+}
+
+/**
+ * The voter votes for the candidate they disagree the least with,
+ * among the nViable candidates expected to get the most votes :
+ * they compromise on the "lesser evil" rather than wasting their vote.
+ */
+export function compromiseSingleVote<Voter, Candidate>(
+    { disagree, poll, nViable = 2 }: {
+        disagree: DisagreementFunction<Voter, Candidate>,
+        poll: Poll<Candidate>,
+        nViable?: number,
+    }
+): VotingToBallot<Voter, Candidate, Single<Candidate>> {
+    return (voter, candidates) =>
+        min(frontRunners(poll, candidates).slice(0, nViable), party => disagree(voter, party));
+}
+
+/**
+ * The voter ranks all the candidates, strategically,
+ * with regard to the nViable candidates expected to get the most votes.
+ *
+ * @param compromise If true (the default), the viable candidate the voter disagrees the least with
+ * is ranked first.
+ * @param burial If true (the default), the other viable candidates are ranked last,
+ * even below the candidates the voter disagrees more with.
+ * Otherwise, the candidates are ranked in the voter's sincere order.
+ */
+export function strategicOrderingVote<Voter, Candidate>(
+    { disagree, poll, nViable = 2, compromise = true, burial = true }: {
+        disagree: DisagreementFunction<Voter, Candidate>,
+        poll: Poll<Candidate>,
+        nViable?: number,
+        compromise?: boolean,
+        burial?: boolean,
+    }
+): VotingToBallot<Voter, Candidate, Ranked<Candidate>> {
+    const sincere = orderingVote({ disagree });
+    return (voter, candidates) => {
+        const ranking = sincere(voter, candidates);
+        const viable = new Set(frontRunners(poll, candidates).slice(0, nViable));
+        const [favorite, ...rivals] = ranking.filter(candidate => viable.has(candidate));
+        const top = compromise && favorite !== undefined ? [favorite] : [];
+        const bottom = burial ? rivals : [];
+        const moved = new Set([...top, ...bottom]);
+        return [...top, ...ranking.filter(candidate => !moved.has(candidate)), ...bottom];
+    };
+}
+
+/**
+ * Returns the candidates the voter approves strategically :
+ * those the voter prefers to the front-runner, the candidate expected to get the most votes,
+ * and the front-runner itself if the voter prefers it to the runner-up.
+ */
+function approvedAgainstFrontRunner<Voter, Candidate>(
+    voter: Voter,
+    candidates: ReadonlyCollection<Candidate>,
+    disagree: DisagreementFunction<Voter, Candidate>,
+    poll: Poll<Candidate>,
+): Set<Candidate> {
+    const [frontRunner, runnerUp] = frontRunners(poll, candidates);
+    if (frontRunner === undefined) {
+        return new Set();
+    }
+    let threshold = disagree(voter, frontRunner);
+    if (runnerUp !== undefined && threshold < disagree(voter, runnerUp)) {
+        threshold = disagree(voter, runnerUp);
+    }
+    return new Set(Array.from(candidates).filter(candidate => disagree(voter, candidate) < threshold));
+}
+
+/**
+ * The voter approves the candidates they prefer to the expected front-runner,
+ * approving the front-runner as well if they prefer it to the expected runner-up.
+ * In other words, the approval threshold is set at the front-runner, or at the runner-up.
+ */
+export function strategicApprovalVote<Voter, Candidate>(
+    { disagree, poll }: {
+        disagree: DisagreementFunction<Voter, Candidate>,
+        poll: Poll<Candidate>,
+    }
+): VotingToBallot<Voter, Candidate, Approval<Candidate>> {
+    return (voter, candidates) => approvedAgainstFrontRunner(voter, candidates, disagree, poll);
+}
+
+/**
+ * The voter min-maxes their score ballot : the candidates strategicApprovalVote would approve
+ * get the maximum score (nScores-1), and the other candidates get 0.
+ */
+export function minMaxCardinalVote<Voter, Candidate>(
+    { nScores, disagree, poll }: {
+        nScores: number,
+        disagree: DisagreementFunction<Voter, Candidate>,
+        poll: Poll<Candidate>,
+    }
+): VotingToBallot<Voter, Candidate, Score<Candidate>> {
+    return (voter, candidates) => {
+        const approved = approvedAgainstFrontRunner(voter, candidates, disagree, poll);
+        return new Map(Array.from(candidates, candidate =>
+            [candidate, approved.has(candidate) ? nScores - 1 : 0]));
+    };
+}
+
+/**
+ * Makes a share of the voters cast strategic ballots, and the others sincere ballots.
+ * Each voter is strategic with a probability of strategicShare.
+ *
+ * The random object is created once, when calling this function,
+ * and used for all the ballots afterwards.
+ */
+export function withStrategicVoters<Voter, Candidate, Ballot>(
+    { sincere, strategic, strategicShare, ...randomParam }: {
+        sincere: VotingToBallot<Voter, Candidate, Ballot>,
+        strategic: VotingToBallot<Voter, Candidate, Ballot>,
+        strategicShare: number,
+    } & RandomObjParam
+): VotingToBallot<Voter, Candidate, Ballot> {
+    const randomObj = createRandomObj(randomParam);
+    return (voter, candidates) =>
+        (randomObj.random() < strategicShare ? strategic : sincere)(voter, candidates);
+}
@@ -1,11 +1,34 @@
-import { min } from "@gouvernathor/python";
 import { NumberCounter } from "@gouvernathor/python/collections";
 import { ReadonlyCollection } from "@gouvernathor/python/collections/abc";
 import { createRandomObj, type RandomObjParam } from "../utils";
-import { DisagreementFunction } from "./voting-to-ballot";
-import { Order, Scores, Simple } from "./tally";
+import {
+    approvalVote as approvalBallot,
+    balancedCardinalVote as balancedCardinalBallot,
+    cardinalVote as cardinalBallot,
+    compromiseSingleVote as compromiseSingleBallot,
+    DisagreementFunction,
+    minMaxCardinalVote as minMaxCardinalBallot,
+    orderingVote as orderingBallot,
+    Poll,
+    RankingTruncation,
+    singleVote as singleBallot,
+    strategicApprovalVote as strategicApprovalBallot,
+    strategicOrderingVote as strategicOrderingBallot,
+    VotingToBallot,
+    withStrategicVoters,
+} from "./voting-to-ballot";
+import { ApprovalProfile, Order, OrderProfile, Scores, Simple, Turnout, type WithTurnout } from "./tally";
+import {
+    tallyApprovalToApprovalProfile,
+    tallyApprovalToSimple,
+    tallyRankedToOrder,
+    tallyRankedToOrderProfile,
+    tallyScoreToScores,
+    tallySingleToSimple,
+    type WeightsOption,
+} from "./tallying";
 
-export type { DisagreementFunction };
+export type { DisagreementFunction, Poll, RankingTruncation };
 
 export interface Voting<Voter, Party, Tally> {
     (voters: ReadonlyCollection<Voter>, candidates: ReadonlyCollection<Party>): Tally;
@@ -39,38 +62,174 @@ export function toShuffledVote<Voter, Party, Tally>(
 }
 
 
+/**
+ * Turns a voting method into one in which some voters abstain,
+ * or cast blank or null ballots, the others voting through the voting method passed.
+ *
+ * Each voter is considered in turn, given the disagreement with the candidate
+ * they disagree the least with :
+ * - the voter abstains if that disagreement is above abstentionThreshold,
+ * or otherwise with the probability returned by abstentionProbability ;
+ * - a voter turning out casts a blank ballot if that disagreement is above blankThreshold ;
+ * - any other ballot is null with the probability nullProbability.
+ * By default, all the voters cast valid ballots.
+ *
+ * The returned tally records the turnout, in which the registered voters
+ * are all the voters passed to the voting method.
+ * If weights are passed, each voter counts in the turnout as their weight instead of as 1,
+ * and the voting method passed should be given the same weights.
+ *
+ * The random object is created at each call of the voting method,
+ * in the same way as in toShuffledVote.
+ */
+export function withTurnout<Voter, Party, Tally extends object>(
+    {
+        voting,
+        disagree,
+        abstentionThreshold = Infinity,
+        abstentionProbability = () => 0,
+        blankThreshold = Infinity,
+        nullProbability = 0,
+        weight,
+        ...randomParam
+    }: {
+        voting: Voting<Voter, Party, Tally>,
+        disagree: DisagreementFunction<Voter, Party>,
+        abstentionThreshold?: number,
+        abstentionProbability?: (disagreement: number, voter: Voter) => number,
+        blankThreshold?: number,
+        nullProbability?: number,
+        weight?: VoterWeights<Voter>,
+    } & RandomObjParam,
+): Voting<Voter, Party, Tally & WithTurnout> {
+    const weightOf = voterWeightFunction(weight);
+    return (voters, candidates) => {
+        const randomObj = createRandomObj(randomParam);
+        const validVoters: Voter[] = [];
+        let nRegistered = 0;
+        let validBallots = 0;
+        let blankBallots = 0;
+        let nullBallots = 0;
+        for (const voter of voters) {
+            const voterWeight = weightOf(voter);
+            nRegistered += voterWeight;
+            const disagreement = Math.min(...Array.from(candidates, party => disagree(voter, party)));
+            if (disagreement > abstentionThreshold
+                || randomObj.random() < abstentionProbability(disagreement, voter)) {
+                continue;
+            }
+            if (disagreement > blankThreshold) {
+                blankBallots += voterWeight;
+            } else if (randomObj.random() < nullProbability) {
+                nullBallots += voterWeight;
+            } else {
+                validVoters.push(voter);
+                validBallots += voterWeight;
+            }
+        }
+        const tally = voting(validVoters, candidates);
+        return Object.assign(tally, {
+            turnout: new Turnout(nRegistered, validBallots, blankBallots, nullBallots),
+        });
+    };
+}
+
 // concrete implementations (no random shuffling included !)
 
+/**
+ * The weight of each voter, the number of ballots they count for,
+ * for instance the number of citizens a sampled voter stands for,
+ * or the number of shares a shareholder owns.
+ * Either a function, or a map from the voters to their weights,
+ * in which case the voters missing from the map weigh 1.
+ */
+export type VoterWeights<Voter> = ((voter: Voter) => number) | ReadonlyMap<Voter, number>;
+
+/**
+ * Returns a function giving the weight of each voter, 1 if no weights are passed.
+ */
+export function voterWeightFunction<Voter>(
+    weight: VoterWeights<Voter> | undefined,
+): (voter: Voter) => number {
+    if (weight === undefined) {
+        return () => 1;
+    }
+    if (typeof weight === "function") {
+        return weight;
+    }
+    return voter => weight.get(voter) ?? 1;
+}
+
+/**
+ * Returns the tallying option giving the weights of the voters, in order.
+ */
+function weightsOption<Voter>(
+    voters: ReadonlyCollection<Voter>,
+    weight: VoterWeights<Voter> | undefined,
+): WeightsOption {
+    if (weight === undefined) {
+        return {};
+    }
+    return { weights: Array.from(voters, voterWeightFunction(weight)) };
+}
+
 /**
  * The most basic and widespread voting system : each voter casts one ballot for
  * one of the available candidates, or (not implemented here) for none of them.
+ *
+ * If weights are passed, each voter counts as their weight instead of as 1,
+ * and the counts need not be integers. The same goes for the other voting methods.
  */
 export function singleVote<Voter, Party>(
-    { disagree }: {
+    { disagree, weight }: {
         disagree: DisagreementFunction<Voter, Party>,
+        weight?: VoterWeights<Voter>,
     }
 ): Voting<Voter, Party, Simple<Party>> {
+    const ballot = singleBallot({ disagree });
     return (voters, candidates) => {
-        return NumberCounter.fromKeys(Array.from(voters, voter =>
-            min(candidates, party => disagree(voter, party))));
+        return tallySingleToSimple(Array.from(voters, voter => ballot(voter, candidates)),
+            weightsOption(voters, weight));
     };
 }
 
 /**
- * Each voter ranks all, or (not implemented here) some, of the candidates.
+ * Each voter ranks all, or some, of the candidates,
+ * the ballots being truncated according to the options.
  */
 export function orderingVote<Voter, Party>(
-    { disagree }: {
+    { disagree, weight, ...truncation }: {
         disagree: DisagreementFunction<Voter, Party>,
-    }
+        weight?: VoterWeights<Voter>,
+    } & RankingTruncation
 ): Voting<Voter, Party, Order<Party>> {
+    const ballot = orderingBallot({ disagree, ...truncation });
     return (voters, candidates) => {
-        const order: Party[][] = [];
-        for (const voter of voters) {
-            order.push([...candidates]
-                .sort((a, b) => disagree(voter, a) - disagree(voter, b)));
+        return tallyRankedToOrder(Array.from(voters, voter => ballot(voter, candidates)),
+            weightsOption(voters, weight));
+    };
+}
+
+/**
+ * Each voter ranks the candidates in the same way as orderingVote.
+ *
+ * Unlike orderingVote, the returned tally groups the identical rankings together,
+ * which saves memory and computations when there are many voters and few candidates.
+ */
+export function orderProfileVote<Voter, Party>(
+    { disagree, weight, ...truncation }: {
+        disagree: DisagreementFunction<Voter, Party>,
+        weight?: VoterWeights<Voter>,
+    } & RankingTruncation
+): Voting<Voter, Party, OrderProfile<Party>> {
+    const ballot = orderingBallot({ disagree, ...truncation });
+    return (voters, candidates) => {
+        function* ballots() {
+            for (const voter of voters) {
+                yield ballot(voter, candidates);
+            }
         }
-        return order;
+        return tallyRankedToOrderProfile(ballots(), weightsOption(voters, weight));
     };
 }
 
@@ -91,23 +250,16 @@ export function orderingVote<Voter, Party>(
  * where every party is graded 0, especially with low ngrades values.
  */
 export function cardinalVote<Voter, Party>(
-    { nGrades, disagree }: {
+    { nGrades, disagree, weight }: {
         nGrades: number,
         disagree: DisagreementFunction<Voter, Party>,
+        weight?: VoterWeights<Voter>,
     }
 ): Voting<Voter, Party, Scores<Party>> {
+    const ballot = cardinalBallot({ nScores: nGrades, disagree });
     return (voters, candidates) => {
-        const scores = Scores.fromGrades<Party>(nGrades);
-
-        // if the disagreement is .0, the grade will be ngrades-1 and not ngrades
-        for (const voter of voters) {
-            for (const party of candidates) {
-                const grade = Math.min(nGrades - 1,
-                    Math.floor(nGrades) * (1 - disagree(voter, party)));
-                (scores.get(party) as number[])[grade]!++;
-            }
-        }
-        return scores;
+        return tallyScoreToScores(Array.from(voters, voter => ballot(voter, candidates)),
+            { nScores: nGrades, ...weightsOption(voters, weight) });
     };
 }
 
@@ -115,31 +267,16 @@ export function cardinalVote<Voter, Party>(
  * Alternative implementation of CardinalVote.
  */
 export function balancedCardinalVote<Voter, Party>(
-    { nGrades, disagree }: {
+    { nGrades, disagree, weight }: {
         nGrades: number,
         disagree: DisagreementFunction<Voter, Party>,
+        weight?: VoterWeights<Voter>,
     }
 ): Voting<Voter, Party, Scores<Party>> {
+    const ballot = balancedCardinalBallot({ nScores: nGrades, disagree });
     return (voters, candidates) => {
-        const scores = Scores.fromGrades<Party>(nGrades);
-
-        // if the disagreement is .0, the grade will be ngrades-1 and not ngrades
-        for (const voter of voters) {
-            const prefs = new Map(Array.from(candidates, party => [party, 1 - disagree(voter, party)]));
-            const minPref = Math.min(...prefs.values());
-            let maxPref = Math.max(...prefs.values());
-
-            if (minPref !== maxPref) { // avoid division by zero
-                maxPref -= minPref;
-            }
-
-            for (const party of candidates) {
-                const grade = Math.min(nGrades - 1,
-                    Math.floor(nGrades * (prefs.get(party)! - minPref) / maxPref));
-                (scores.get(party) as number[])[grade]!++;
-            }
-        }
-        return scores;
+        return tallyScoreToScores(Array.from(voters, voter => ballot(voter, candidates)),
+            { nScores: nGrades, ...weightsOption(voters, weight) });
     };
 }
 
@@ -153,14 +290,149 @@ export function balancedCardinalVote<Voter, Party>(
  * If you want a scores-like attribution, use balancedCardinalVote({ nGrades: 2 }) instead.
  */
 export function approvalVote<Voter, Party>(
-    { disagree }: {
+    { disagree, weight }: {
         disagree: DisagreementFunction<Voter, Party>,
+        weight?: VoterWeights<Voter>,
     }
 ): Voting<Voter, Party, Simple<Party>> {
-    const cardinal = balancedCardinalVote({ nGrades: 2, disagree });
+    const ballot = approvalBallot({ disagree });
+    return (voters, candidates) => {
+        const approvals = tallyApprovalToSimple(Array.from(voters, voter => ballot(voter, candidates)),
+            weightsOption(voters, weight));
+        // the candidates approved by nobody are counted too
+        return NumberCounter.fromEntries(Array.from(candidates, party => [party, approvals.get(party)]));
+    };
+}
+
+/**
+ * Each voter approves or disapproves each of the candidates, in the same way as approvalVote.
+ *
+ * Unlike approvalVote, the returned tally keeps track of which candidates were approved together,
+ * which makes it open to proportional approval attribution methods.
+ */
+export function approvalProfileVote<Voter, Party>(
+    { disagree, weight }: {
+        disagree: DisagreementFunction<Voter, Party>,
+        weight?: VoterWeights<Voter>,
+    }
+): Voting<Voter, Party, ApprovalProfile<Party>> {
+    const ballot = approvalBallot({ disagree });
     return (voters, candidates) => {
-        const scores = cardinal(voters, candidates);
-        return NumberCounter.fromEntries(Array.from(scores.entries(),
-            ([party, [_disapproval, approval]]) => [party, approval!]));
+        return tallyApprovalToApprovalProfile(Array.from(voters, voter => ballot(voter, candidates)),
+            weightsOption(voters, weight));
     };
 }
+
+// strategic voting
+
+/**
+ * Returns the ballots of the voters, a share of them voting strategically.
+ * The random object is created at each call, in the same way as in toShuffledVote.
+ */
+function mixedBallots<Voter, Party, Ballot>(
+    voters: ReadonlyCollection<Voter>,
+    candidates: ReadonlyCollection<Party>,
+    { sincere, strategic, strategicShare, randomParam }: {
+        sincere: VotingToBallot<Voter, Party, Ballot>,
+        strategic: VotingToBallot<Voter, Party, Ballot>,
+        strategicShare: number,
+        randomParam: RandomObjParam,
+    },
+): Ballot[] {
+    const ballot = withStrategicVoters({ sincere, strategic, strategicShare, randomObj: createRandomObj(randomParam) });
+    return Array.from(voters, voter => ballot(voter, candidates));
+}
+
+/**
+ * Each voter casts one ballot, as in singleVote, but a share of the voters
+ * compromise on the "lesser evil" among the nViable candidates
+ * expected by the poll to get the most votes.
+ *
+ * @param strategicShare The probability for each voter to vote strategically, defaults to 1.
+ */
+export function compromiseSingleVote<Voter, Party>(
+    { disagree, poll, nViable = 2, strategicShare = 1, weight, ...randomParam }: {
+        disagree: DisagreementFunction<Voter, Party>,
+        poll: Poll<Party>,
+        nViable?: number,
+        strategicShare?: number,
+        weight?: VoterWeights<Voter>,
+    } & RandomObjParam
+): Voting<Voter, Party, Simple<Party>> {
+    const sincere = singleBallot({ disagree });
+    const strategic = compromiseSingleBallot({ disagree, poll, nViable });
+    return (voters, candidates) => tallySingleToSimple(
+        mixedBallots(voters, candidates, { sincere, strategic, strategicShare, randomParam }),
+        weightsOption(voters, weight));
+}
+
+/**
+ * Each voter ranks all the candidates, as in orderingVote, but a share of the voters
+ * rank first the viable candidate they prefer (compromise)
+ * and rank last the other viable candidates (burial),
+ * the viable candidates being the nViable expected by the poll to get the most votes.
+ *
+ * @param strategicShare The probability for each voter to vote strategically, defaults to 1.
+ */
+export function strategicOrderingVote<Voter, Party>(
+    { disagree, poll, nViable = 2, compromise = true, burial = true, strategicShare = 1, weight, ...randomParam }: {
+        disagree: DisagreementFunction<Voter, Party>,
+        poll: Poll<Party>,
+        nViable?: number,
+        compromise?: boolean,
+        burial?: boolean,
+        strategicShare?: number,
+        weight?: VoterWeights<Voter>,
+    } & RandomObjParam
+): Voting<Voter, Party, Order<Party>> {
+    const sincere = orderingBallot({ disagree });
+    const strategic = strategicOrderingBallot({ disagree, poll, nViable, compromise, burial });
+    return (voters, candidates) => tallyRankedToOrder(
+        mixedBallots(voters, candidates, { sincere, strategic, strategicShare, randomParam }),
+        weightsOption(voters, weight));
+}
+
+/**
+ * Each voter approves or disapproves each of the candidates, as in approvalVote,
+ * but a share of the voters set their approval threshold at the front-runner expected by the poll,
+ * or at the runner-up if they prefer the front-runner to it.
+ *
+ * @param strategicShare The probability for each voter to vote strategically, defaults to 1.
+ */
+export function strategicApprovalVote<Voter, Party>(
+    { disagree, poll, strategicShare = 1, weight, ...randomParam }: {
+        disagree: DisagreementFunction<Voter, Party>,
+        poll: Poll<Party>,
+        strategicShare?: number,
+        weight?: VoterWeights<Voter>,
+    } & RandomObjParam
+): Voting<Voter, Party, Simple<Party>> {
+    const sincere = approvalBallot({ disagree });
+    const strategic = strategicApprovalBallot({ disagree, poll });
+    return (voters, candidates) => tallyApprovalToSimple(
+        mixedBallots(voters, candidates, { sincere, strategic, strategicShare, randomParam }),
+        weightsOption(voters, weight));
+}
+
+/**
+ * Each voter gives a grade to each candidate, as in cardinalVote, but a share of the voters
+ * min-max their ballot, giving the best grade to the candidates strategicApprovalVote would approve,
+ * and the worst grade to the others.
+ *
+ * @param strategicShare The probability for each voter to vote strategically, defaults to 1.
+ */
+export function minMaxCardinalVote<Voter, Party>(
+    { nGrades, disagree, poll, strategicShare = 1, weight, ...randomParam }: {
+        nGrades: number,
+        disagree: DisagreementFunction<Voter, Party>,
+        poll: Poll<Party>,
+        strategicShare?: number,
+        weight?: VoterWeights<Voter>,
+    } & RandomObjParam
+): Voting<Voter, Party, Scores<Party>> {
+    const sincere = cardinalBallot({ nScores: nGrades, disagree });
+    const strategic = minMaxCardinalBallot({ nScores: nGrades, disagree, poll });
+    return (voters, candidates) => tallyScoreToScores(
+        mixedBallots(voters, candidates, { sincere, strategic, strategicShare, randomParam }),
+        { nScores: nGrades, ...weightsOption(voters, weight) });
+}
@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import { NumberCounter } from "@gouvernathor/python/collections";
+import { District, House, MixedMemberHouse } from "../../src/actors/house";
+import { standardElection } from "../../src/election";
+import { AttributionFailure, jefferson, plurality } from "../../src/election/attribution";
+import { type Simple } from "../../src/election/tally";
+
+// each voter is the name of the party it votes for
+const singleVote = (voters: Iterable<string>): Simple<string> => NumberCounter.fromKeys(voters);
+
+function district(voters: string[], nSeats = 1) {
+    return new District(
+        standardElection({ votingMethod: singleVote, attributionMethod: plurality<string>({ nSeats }) }),
+        voters, { nSeats });
+}
+
+describe("House", () => {
+    it("adds up the seats won in each district", () => {
+        const house = new House([
+            district(["A", "A", "B"]),
+            district(["A", "B", "B"], 2),
+            district(["C", "A", "C"]),
+        ]);
+        const elected = house.election(["A", "B", "C"]);
+        expect(Object.fromEntries(elected.pos)).toEqual({ A: 1, B: 2, C: 1 });
+        expect(Object.fromEntries(house.members.pos)).toEqual({ A: 1, B: 2, C: 1 });
+        expect(house.nSeats).toBe(4);
+    });
+
+    it("adds up the seats of a party winning several districts", () => {
+        const house = new House([
+            district(["A", "A", "B"]),
+            district(["A", "B", "A"]),
+        ]);
+        expect(Object.fromEntries(house.election(["A", "B"]).pos)).toEqual({ A: 2 });
+        expect(Object.fromEntries(house.members.pos)).toEqual({ A: 2 });
+    });
+});
+
+describe("House.vote", () => {
+    it("records the members having no opinion as blank votes", () => {
+        const house = new House([district(["A"]), district(["B"]), district(["C"])]);
+        house.election(["A", "B", "C"]);
+        const opinions: Record<string, number> = { A: 1, B: -1, C: 0 };
+        const vote = house.vote("motion", { disagree: party => opinions[party]! });
+        expect(vote).toMatchObject({ votesFor: 1, votesAgainst: 1, votesBlank: 1, votesCast: 2, ballotsCast: 3 });
+        expect(vote.neg).toMatchObject({ votesFor: 1, votesAgainst: 1, votesBlank: 1 });
+    });
+});
+
+describe("House with a national threshold", () => {
+    // C wins a district with a sixth of the national votes
+    const districts = () => [
+        district(["A", "A", "B"]),
+        district(["B", "B", "A"]),
+        district(["C", "C", "A"]),
+        district(["A", "B", "A"]),
+    ];
+
+    it("excludes the parties below the threshold from every district", () => {
+        const house = new House(districts(), { nationalThreshold: { threshold: .2 } });
+        expect(Object.fromEntries(house.election(["A", "B", "C"]).pos)).toEqual({ A: 3, B: 1 });
+        expect(Object.fromEntries(new House(districts()).election(["A", "B", "C"]).pos)).toEqual({ A: 2, B: 1, C: 1 });
+    });
+
+    it("exempts the parties winning enough districts", () => {
+        const house = new House(districts(), { nationalThreshold: { threshold: .2, districtExemption: 1 } });
+        expect(Object.fromEntries(house.election(["A", "B", "C"]).pos)).toEqual({ A: 2, B: 1, C: 1 });
+    });
+
+    it("exempts the given parties", () => {
+        const house = new House(districts(), { nationalThreshold: { threshold: .2, exemptParties: new Set(["C"]) } });
+        expect(Object.fromEntries(house.election(["A", "B", "C"]).pos)).toEqual({ A: 2, B: 1, C: 1 });
+    });
+
+    it("applies the coalition threshold to the coalitions", () => {
+        const coalitions = new Set(["C"]);
+        const lower = new House(districts(), { nationalThreshold: { threshold: .1 } });
+        expect(Object.fromEntries(lower.election(["A", "B", "C"]).pos)).toEqual({ A: 2, B: 1, C: 1 });
+        const higher = new House(districts(), { nationalThreshold: { threshold: .1, coalitions, coalitionThreshold: .2 } });
+        expect(Object.fromEntries(higher.election(["A", "B", "C"]).pos)).toEqual({ A: 3, B: 1 });
+    });
+
+    it("fails when no party reaches the threshold", () => {
+        const house = new House(districts(), { nationalThreshold: { threshold: .9 } });
+        expect(() => house.election(["A", "B", "C"])).toThrow(AttributionFailure);
+    });
+
+    it("requires the districts to use standard elections", () => {
+        const election = standardElection({ votingMethod: singleVote, attributionMethod: plurality<string>({ nSeats: 1 }) });
+        const opaque = new District<string, string>((pool, candidates) => election(pool, candidates), ["A"], { nSeats: 1 });
+        const house = new House([opaque], { nationalThreshold: { threshold: .1 } });
+        expect(() => house.election(["A"])).toThrow("standard elections");
+    });
+});
+
+describe("MixedMemberHouse", () => {
+    // A narrowly wins three constituencies, B has more list votes
+    const constituencies = () => [
+        district(["A", "A", "B"]),
+        district(["A", "A", "B"]),
+        district(["A", "A", "B"]),
+        district(["B", "B", "B", "B"]),
+    ];
+    const options = {
+        listVoting: singleVote,
+        listAttribution: jefferson<string>,
+        nListSeats: 0,
+    };
+
+    it("adds the smallest number of leveling seats compensating the overhang", () => {
+        const house = new MixedMemberHouse(constituencies(), options);
+        expect(Object.fromEntries(house.election(["A", "B"]).pos)).toEqual({ A: 3, B: 3 });
+        expect(Object.fromEntries(house.constituencySeats.pos)).toEqual({ A: 3, B: 1 });
+        expect(Object.fromEntries(house.listSeats.pos)).toEqual({ B: 2 });
+    });
+
+    it("keeps the overhang seats without leveling", () => {
+        const house = new MixedMemberHouse(constituencies(), { ...options, leveling: false });
+        expect(Object.fromEntries(house.election(["A", "B"]).pos)).toEqual({ A: 3, B: 2 });
+    });
+
+    it("stops leveling at the maximum number of seats", () => {
+        const house = new MixedMemberHouse(constituencies(), { ...options, maxNSeats: 5 });
+        expect(Object.fromEntries(house.election(["A", "B"]).pos)).toEqual({ A: 3, B: 3 });
+        expect(Object.fromEntries(house.listSeats.pos)).toEqual({ B: 2 });
+    });
+
+    it("levels a large overhang", () => {
+        const house = new MixedMemberHouse([
+            ...Array.from({ length: 20 }, () => district(["A", "A", "B"])),
+            district(Array(401).fill("B")),
+        ], options);
+        // A's 40 list votes earn its 20 constituency seats in a House of 230 seats
+        expect(Object.fromEntries(house.election(["A", "B"]).pos)).toEqual({ A: 20, B: 210 });
+    });
+
+    it("deducts the constituency seats of the parties below the threshold", () => {
+        const house = new MixedMemberHouse([...constituencies(), district(["C"])],
+            { ...options, leveling: false, threshold: .1 });
+        expect(Object.fromEntries(house.election(["A", "B", "C"]).pos)).toEqual({ A: 3, B: 2, C: 1 });
+    });
+
+    it("exempts the parties winning enough constituencies from the threshold", () => {
+        const house = new MixedMemberHouse([...constituencies(), district(["C"])],
+            { ...options, leveling: false, threshold: .1, constituencyExemption: 1 });
+        expect(Object.fromEntries(house.election(["A", "B", "C"]).pos)).toEqual({ A: 3, B: 3, C: 1 });
+    });
+
+    it("fails when no party reaches the threshold", () => {
+        const house = new MixedMemberHouse(constituencies(), { ...options, threshold: .9 });
+        expect(() => house.election(["A", "B"])).toThrow(AttributionFailure);
+    });
+});
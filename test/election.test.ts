@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { NumberCounter } from "@gouvernathor/python/collections";
+import { type ReadonlyCollection } from "@gouvernathor/python/collections/abc";
+import { twoRoundElection } from "../src/election";
+import { AttributionFailure, candidateOrderTieBreak, plurality } from "../src/election/attribution";
+import { type Simple, Turnout } from "../src/election/tally";
+
+type Voter = readonly string[];
+
+function repeat<T>(n: number, voter: T): T[] {
+    return Array.from({ length: n }, () => voter);
+}
+
+// each voter votes for its preferred candidate, or abstains if it likes none of them
+function firstChoice(voters: ReadonlyCollection<Voter>, candidates: ReadonlyCollection<string>): Simple<string> {
+    const running = new Set(candidates);
+    return NumberCounter.fromKeys([...voters].flatMap(voter => voter.filter(party => running.has(party)).slice(0, 1)));
+}
+
+describe("twoRoundElection", () => {
+    const base = {
+        votingMethod: firstChoice,
+        attributionMethod: plurality<string>({ nSeats: 1 }),
+    };
+    const voters = [
+        ...repeat(4, ["A"]),
+        ...repeat(3, ["B", "C"]),
+        ...repeat(2, ["C", "B"]),
+        ["D", "C", "B"],
+    ];
+
+    it("elects a candidate with an outright majority in the first round", () => {
+        const result = twoRoundElection(base).detailed([...repeat(6, ["A"]), ...repeat(5, ["B", "A"])], ["A", "B"]);
+        expect(Object.fromEntries(result.seats.pos)).toEqual({ A: 1 });
+        expect(result.secondRound).toBeUndefined();
+        expect(result.qualified).toBeUndefined();
+    });
+
+    it("holds a runoff between the top two candidates", () => {
+        const result = twoRoundElection(base).detailed(voters, ["A", "B", "C", "D"]);
+        expect(result.qualified).toEqual(["A", "B"]);
+        expect(Object.fromEntries(result.secondRound!.pos)).toEqual({ A: 4, B: 6 });
+        expect(Object.fromEntries(result.seats.pos)).toEqual({ B: 1 });
+    });
+
+    it("requires a share of the registered voters to win in the first round", () => {
+        const abstaining = [...repeat(3, ["A"]), ["B"], ...repeat(6, [])];
+        const election = twoRoundElection({ ...base, majorityOfRegistered: .4 });
+        const result = election.detailed(abstaining, ["A", "B"]);
+        expect(result.qualified).toEqual(["A", "B"]);
+        expect(Object.fromEntries(result.seats.pos)).toEqual({ A: 1 });
+    });
+
+    it("counts the registered voters by their weight", () => {
+        const abstaining = [...repeat(3, ["A"]), ["B"], ...repeat(6, [])];
+        const weight = (voter: Voter) => voter.length === 0 ? .5 : 1;
+        const election = twoRoundElection({ ...base, majorityOfRegistered: .4, weight });
+        const result = election.detailed(abstaining, ["A", "B"]);
+        expect(result.secondRound).toBeUndefined();
+        expect(Object.fromEntries(result.seats.pos)).toEqual({ A: 1 });
+    });
+
+    it("counts the registered voters from the turnout of the tally", () => {
+        const abstaining = [...repeat(3, ["A"]), ["B"], ...repeat(6, [])];
+        const election = twoRoundElection({
+            ...base,
+            votingMethod: (voters: ReadonlyCollection<Voter>, candidates: ReadonlyCollection<string>) =>
+                Object.assign(firstChoice(voters, candidates), { turnout: new Turnout(7, 4) }),
+            majorityOfRegistered: .4,
+        });
+        expect(election.detailed(abstaining, ["A", "B"]).secondRound).toBeUndefined();
+    });
+
+    it("qualifies the candidates reaching the qualifying share", () => {
+        const election = twoRoundElection({ ...base, qualifyingShare: .125 });
+        const result = election.detailed(voters, ["A", "B", "C", "D"]);
+        expect(result.qualified).toEqual(["A", "B", "C"]);
+        expect(Object.fromEntries(result.seats.pos)).toEqual({ A: 1 });
+    });
+
+    it("falls back to the top candidates when too few reach the qualifying share", () => {
+        const election = twoRoundElection({ ...base, qualifyingShare: .35 });
+        expect(election.detailed(voters, ["A", "B", "C", "D"]).qualified).toEqual(["A", "B"]);
+    });
+
+    it("lets qualified candidates withdraw", () => {
+        const election = twoRoundElection({
+            ...base,
+            qualifyingShare: .125,
+            withdraw: qualified => qualified.filter(party => party !== "C"),
+        });
+        const result = election.detailed(voters, ["A", "B", "C", "D"]);
+        expect(result.qualified).toEqual(["A", "B"]);
+        expect(Object.fromEntries(result.seats.pos)).toEqual({ B: 1 });
+    });
+
+    it("fails when every qualified candidate withdraws", () => {
+        const election = twoRoundElection({ ...base, withdraw: () => [] });
+        expect(() => election(voters, ["A", "B", "C", "D"])).toThrow(AttributionFailure);
+    });
+
+    it("breaks the ties at the cut of the qualified candidates", () => {
+        const tiedVoters = [...repeat(2, ["A"]), ["B"], ["C"]];
+        expect(twoRoundElection(base).detailed(tiedVoters, ["A", "B", "C"]).qualified).toEqual(["A", "B"]);
+        const election = twoRoundElection({ ...base, tieBreak: candidateOrderTieBreak({ order: ["C"] }) });
+        expect(election.detailed(tiedVoters, ["A", "B", "C"]).qualified).toEqual(["A", "C"]);
+    });
+});
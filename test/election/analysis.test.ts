@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import { NumberCounter } from "@gouvernathor/python/collections";
+import {
+    alabamaParadox,
+    checkApportionment,
+    checkOrderAttribution,
+    condorcetFailure,
+    monotonicityFailure,
+    newStatesParadox,
+    populationParadox,
+    quotaViolation,
+} from "../../src/election/analysis";
+import { hamilton, instantRunoff, jefferson, schulze, webster } from "../../src/election/attribution";
+import { type Order } from "../../src/election/tally";
+
+function repeat<T>(n: number, ballot: T): T[] {
+    return Array.from({ length: n }, () => ballot);
+}
+
+function tally(entries: [string, number][]) {
+    return NumberCounter.fromEntries(entries);
+}
+
+describe("apportionment paradoxes", () => {
+    it("finds the Alabama paradox of Hamilton's method", () => {
+        // C wins 2 seats out of 10, but 1 out of 11
+        const votes = tally([["A", 6], ["B", 6], ["C", 2]]);
+        const paradox = alabamaParadox(hamilton, votes, 10);
+        expect(paradox?.party).toBe("C");
+        expect(Object.fromEntries(paradox!.seats.pos)).toEqual({ A: 4, B: 4, C: 2 });
+        expect(Object.fromEntries(paradox!.largerSeats.pos)).toEqual({ A: 5, B: 5, C: 1 });
+        expect(alabamaParadox(jefferson, votes, 10)).toBeUndefined();
+    });
+
+    it("finds the population paradox of Hamilton's method", () => {
+        // A grows by 25% and C does not grow, yet C takes a seat from A
+        const votes = tally([["A", 4], ["B", 1], ["C", 1]]);
+        const newVotes = tally([["A", 5], ["B", 3], ["C", 1]]);
+        const paradox = populationParadox(hamilton, votes, newVotes, 4);
+        expect(paradox).toMatchObject({ party: "A", otherParty: "C" });
+        expect(Object.fromEntries(paradox!.newSeats.pos)).toEqual({ A: 2, B: 1, C: 1 });
+        expect(populationParadox(webster, votes, newVotes, 4)).toBeUndefined();
+    });
+
+    it("finds the new states paradox of Hamilton's method", () => {
+        // C joins and wins 2 seats, the house growing from 5 to 7 seats, and B takes a seat from A
+        const votes = tally([["A", 12], ["B", 5]]);
+        const paradox = newStatesParadox(hamilton, votes, 5, "C", 8);
+        expect(Object.fromEntries(paradox!.seats.pos)).toEqual({ A: 4, B: 1 });
+        expect(Object.fromEntries(paradox!.newSeats.pos)).toEqual({ A: 3, B: 2, C: 2 });
+        expect(newStatesParadox(jefferson, votes, 5, "C", 8)).toBeUndefined();
+    });
+
+    it("finds the quota violations of Jefferson's method", () => {
+        const votes = tally([["A", 88], ["B", 7], ["C", 5]]);
+        expect(quotaViolation(jefferson, votes, 10)).toMatchObject({ party: "A", quota: 8.8 });
+        expect(quotaViolation(hamilton, votes, 10)).toBeUndefined();
+    });
+
+    it("sweeps seeded tallies for each paradox", () => {
+        const options = { randomSeed: 1, nTallies: 50, maxNSeats: 30 };
+        const hamiltonReport = checkApportionment(hamilton, options);
+        expect(hamiltonReport.alabama).toHaveLength(1);
+        expect(hamiltonReport.population).toHaveLength(1);
+        expect(hamiltonReport.newStates).toHaveLength(1);
+        expect(hamiltonReport.quota).toHaveLength(0);
+        const { alabama: [paradox] } = hamiltonReport;
+        expect(alabamaParadox(hamilton, paradox!.votes, paradox!.nSeats)).toEqual(paradox);
+
+        const jeffersonReport = checkApportionment(jefferson, options);
+        expect(jeffersonReport.alabama).toHaveLength(0);
+        expect(jeffersonReport.population).toHaveLength(0);
+        expect(jeffersonReport.newStates).toHaveLength(0);
+        expect(jeffersonReport.quota).toHaveLength(1);
+    });
+
+    it("generates the same tallies for the same seed", () => {
+        const options = { randomSeed: 1, nTallies: 50, maxNSeats: 30 };
+        expect(checkApportionment(hamilton, options)).toEqual(checkApportionment(hamilton, options));
+    });
+});
+
+describe("ranked attribution properties", () => {
+    it("finds the monotonicity failure of instant-runoff voting", () => {
+        // 10 voters rank the winner A first instead of last, which makes C win
+        const votes: Order<string> = [
+            ...repeat(39, ["A", "B", "C"]),
+            ...repeat(35, ["B", "C", "A"]),
+            ...repeat(26, ["C", "A", "B"]),
+        ];
+        const newVotes: Order<string> = [
+            ...repeat(49, ["A", "B", "C"]),
+            ...repeat(25, ["B", "C", "A"]),
+            ...repeat(26, ["C", "A", "B"]),
+        ];
+        const failure = monotonicityFailure(instantRunoff<string>({ nSeats: 1 }), votes, newVotes, "A");
+        expect(Object.fromEntries(failure!.seats.pos)).toEqual({ A: 1 });
+        expect(Object.fromEntries(failure!.newSeats.pos)).toEqual({ C: 1 });
+    });
+
+    it("finds the Condorcet failure of instant-runoff voting", () => {
+        const tennessee: Order<string> = [
+            ...repeat(42, ["Memphis", "Nashville", "Chattanooga", "Knoxville"]),
+            ...repeat(26, ["Nashville", "Chattanooga", "Knoxville", "Memphis"]),
+            ...repeat(15, ["Chattanooga", "Knoxville", "Nashville", "Memphis"]),
+            ...repeat(17, ["Knoxville", "Chattanooga", "Nashville", "Memphis"]),
+        ];
+        const failure = condorcetFailure(instantRunoff<string>({ nSeats: 1 }), tennessee);
+        expect(failure?.condorcetWinner).toBe("Nashville");
+        expect(Object.fromEntries(failure!.seats.pos)).toEqual({ Knoxville: 1 });
+        expect(condorcetFailure(schulze<string>({ nSeats: 1 }), tennessee)).toBeUndefined();
+    });
+
+    it("sweeps seeded tallies for each property", () => {
+        const irvReport = checkOrderAttribution(instantRunoff<string>({ nSeats: 1 }), { randomSeed: 1 });
+        expect(irvReport.monotonicity).toHaveLength(1);
+        expect(irvReport.condorcet).toHaveLength(1);
+        const schulzeReport = checkOrderAttribution(schulze<string>({ nSeats: 1 }), { randomSeed: 1 });
+        expect(schulzeReport).toEqual({ monotonicity: [], condorcet: [] });
+    });
+});
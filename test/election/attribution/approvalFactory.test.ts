@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import {
+    equalShares,
+    phragmen,
+    proportionalApprovalVoting,
+    sequentialProportionalApprovalVoting,
+} from "../../../src/election/attribution";
+import { type ApprovalProfile } from "../../../src/election/tally";
+
+// two factions of 6 and 4 voters, each approving its own five candidates
+const factions: ApprovalProfile<string> = [
+    [new Set(["A1", "A2", "A3", "A4", "A5"]), 6],
+    [new Set(["B1", "B2", "B3", "B4", "B5"]), 4],
+];
+
+function seatsByFaction(seats: ReadonlyMap<string, number>) {
+    const byFaction: Record<string, number> = {};
+    for (const [party, nSeats] of seats) {
+        expect(nSeats).toBe(1);
+        byFaction[party[0]!] = (byFaction[party[0]!] ?? 0) + nSeats;
+    }
+    return byFaction;
+}
+
+describe("proportional approval methods", () => {
+    const methods = {
+        proportionalApprovalVoting,
+        sequentialProportionalApprovalVoting,
+        phragmen,
+        equalShares,
+    };
+
+    it.each(Object.entries(methods))("%s shares the seats between the factions", (_, method) => {
+        const attrib = method<string>({ nSeats: 5 });
+        expect(seatsByFaction(attrib(factions).pos)).toEqual({ A: 3, B: 2 });
+    });
+
+    it.each(Object.entries(methods))("%s attributes fewer seats than nSeats when too few parties are approved", (_, method) => {
+        const attrib = method<string>({ nSeats: 3 });
+        expect(Object.fromEntries(attrib([[new Set(["A"]), 2], [new Set(), 1]]).pos)).toEqual({ A: 1 });
+    });
+
+    it("lets the largest faction win every seat under PAV when it has enough candidates", () => {
+        const attrib = proportionalApprovalVoting<string>({ nSeats: 2 });
+        expect(seatsByFaction(attrib([
+            [new Set(["A1", "A2"]), 9],
+            [new Set(["B1", "B2"]), 1],
+        ]).pos)).toEqual({ A: 2 });
+    });
+});
+
+describe("equalShares", () => {
+    // B and C cannot be paid for by their supporters alone
+    const votes: ApprovalProfile<string> = [
+        [new Set(["A"]), 3],
+        [new Set(["B"]), 2],
+        [new Set(["C"]), 1],
+    ];
+
+    it.each(["phragmen", "approvals"] as const)("completes the committee with the %s completion", completion => {
+        const attrib = equalShares<string>({ nSeats: 2, completion });
+        expect(Object.fromEntries(attrib(votes).pos)).toEqual({ A: 1, B: 1 });
+    });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { sum } from "@gouvernathor/python";
+import { NumberCounter } from "@gouvernathor/python/collections";
+import { biproportional, webster } from "../../../src/election/attribution";
+import { type Simple } from "../../../src/election/tally";
+
+const districtSeats = new Map([["X", 5], ["Y", 3]]);
+const votes = new Map<string, Simple<string>>([
+    ["X", NumberCounter.fromEntries([["A", 500], ["B", 300], ["C", 200]])],
+    ["Y", NumberCounter.fromEntries([["A", 100], ["B", 200], ["C", 250]])],
+]);
+
+describe("biproportional", () => {
+    it("fits both the district magnitudes and the upper apportionment", () => {
+        const attrib = biproportional<string, string>({ districtSeats, upperAttribution: webster });
+        const seats = attrib(votes);
+
+        for (const [district, nSeats] of districtSeats) {
+            expect(sum(seats.get(district)!.values())).toBe(nSeats);
+        }
+        // Sainte-Laguë gives A 3 seats, B 3 seats and C 2 seats from the summed votes
+        for (const [party, nSeats] of [["A", 3], ["B", 3], ["C", 2]] as const) {
+            expect(sum([...seats.values()].map(districtResult => districtResult.get(party)))).toBe(nSeats);
+        }
+        // rounding the votes divided by the district divisors X 1, Y .75
+        // and the party divisors A 250, B 200, C 300
+        expect(Object.fromEntries(seats.get("X")!)).toEqual({ A: 2, B: 2, C: 1 });
+        expect(Object.fromEntries(seats.get("Y")!)).toEqual({ A: 1, B: 1, C: 1 });
+    });
+
+    it("normalizes the votes by the district magnitudes for the upper apportionment", () => {
+        const attrib = biproportional<string, string>({ districtSeats, upperAttribution: webster, normalizeByMagnitude: true });
+        const seats = attrib(votes);
+        // A 500/5 + 100/3, B 300/5 + 200/3, C 200/5 + 250/3
+        for (const [party, nSeats] of [["A", 3], ["B", 3], ["C", 2]] as const) {
+            expect(sum([...seats.values()].map(districtResult => districtResult.get(party)))).toBe(nSeats);
+        }
+    });
+
+    it("gives no seat in a district to a party without votes there", () => {
+        const attrib = biproportional<string, string>({ districtSeats, upperAttribution: webster });
+        const seats = attrib(new Map([
+            ["X", NumberCounter.fromEntries([["A", 600], ["B", 400]])],
+            ["Y", NumberCounter.fromEntries([["B", 300]])],
+        ]));
+        expect(seats.get("Y")!.get("A")).toBe(0);
+        expect(Object.fromEntries(seats.get("Y")!)).toEqual({ B: 3 });
+    });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { NumberCounter } from "@gouvernathor/python/collections";
+import {
+    droopLargestRemainders,
+    failTieBreak,
+    Fraction,
+    hamilton,
+    jefferson,
+    TieFailure,
+    webster,
+} from "../../../src/election/attribution";
+
+describe("Fraction", () => {
+    it("keeps the fractions in lowest terms", () => {
+        expect(Fraction.of(BigInt(6), BigInt(-4)).toString()).toBe("-3/2");
+        expect(Fraction.from(6).div(4).toString()).toBe("3/2");
+    });
+
+    it("converts the decimal numbers through their shortest representation", () => {
+        expect(Fraction.from(1.4).toString()).toBe("7/5");
+        expect(Fraction.from(1e-7).toString()).toBe("1/10000000");
+        expect(() => Fraction.from(NaN)).toThrow(RangeError);
+    });
+
+    it("computes exactly", () => {
+        expect(Fraction.from(.1).add(.2).compare(.3)).toBe(0);
+        expect(Fraction.sum([.3, .6, .1]).compare(1)).toBe(0);
+        expect(Fraction.from(1).sub(Fraction.of(BigInt(1), BigInt(3))).mul(3).toString()).toBe("2/1");
+        expect(() => Fraction.from(1).div(0)).toThrow(RangeError);
+    });
+
+    it("floors towards negative infinity", () => {
+        expect(Fraction.from(2.5).floor()).toBe(BigInt(2));
+        expect(Fraction.from(-2.5).floor()).toBe(BigInt(-3));
+        expect(Fraction.from(-2).floor()).toBe(BigInt(-2));
+    });
+
+    it("compares the infinity above all finite values", () => {
+        expect(Fraction.INFINITY.compare(Number.MAX_SAFE_INTEGER)).toBe(1);
+        expect(Fraction.INFINITY.compare(Fraction.INFINITY)).toBe(0);
+        expect(Fraction.INFINITY.toNumber()).toBe(Infinity);
+        expect(Fraction.of(BigInt(1), BigInt(3)).toNumber()).toBeCloseTo(1 / 3);
+    });
+});
+
+describe("exact mode", () => {
+    // the floating-point sum of these votes is not 1
+    const decimalVotes = NumberCounter.fromEntries([["A", .3], ["B", .6], ["C", .1]]);
+
+    it("detects the ties hidden by rounding errors in largest-remainders methods", () => {
+        // B and C both have a remainder of .6 seat
+        expect(Object.fromEntries(hamilton<string>({ nSeats: 6 })(decimalVotes).pos)).toEqual({ A: 2, B: 3, C: 1 });
+        expect(Object.fromEntries(hamilton<string>({ nSeats: 6, exact: true })(decimalVotes).pos)).toEqual({ A: 2, B: 4 });
+        expect(() => hamilton<string>({ nSeats: 6, tieBreak: failTieBreak(), exact: true })(decimalVotes)).toThrow(TieFailure);
+    });
+
+    it("detects the ties hidden by rounding errors in divisor methods", () => {
+        // the fifth seat is tied between .1 / 1 and .3 / 3
+        const votes = NumberCounter.fromEntries([["A", .1], ["B", .2], ["C", .3]]);
+        expect(Object.fromEntries(jefferson<string>({ nSeats: 5, tieBreak: failTieBreak() })(votes).pos)).toEqual({ A: 1, B: 2, C: 2 });
+        expect(() => jefferson<string>({ nSeats: 5, tieBreak: failTieBreak(), exact: true })(votes)).toThrow(TieFailure);
+    });
+
+    it("agrees with the floating-point computation on integer votes", () => {
+        const votes = NumberCounter.fromEntries([["A", 5503], ["B", 3001], ["C", 1496]]);
+        for (const factory of [jefferson, webster, hamilton, droopLargestRemainders]) {
+            for (const nSeats of [1, 5, 12, 37]) {
+                expect(factory<string>({ nSeats, exact: true })(votes)).toEqual(factory<string>({ nSeats })(votes));
+            }
+        }
+    });
+});
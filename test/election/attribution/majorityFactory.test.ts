@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { NumberCounter } from "@gouvernathor/python/collections";
+import { AttributionFailure, plurality, superMajority } from "../../../src/election/attribution";
+import { Turnout } from "../../../src/election/tally";
+
+describe("superMajority", () => {
+    // 12 ballots cast out of 20 registered voters, 2 of them blank
+    const votes = Object.assign(NumberCounter.fromEntries([["A", 6], ["B", 4]]), { turnout: new Turnout(20, 10, 2) });
+
+    it("computes the threshold on the valid ballots by default", () => {
+        expect(Object.fromEntries(superMajority<string>({ nSeats: 1, threshold: .55 })(votes).pos)).toEqual({ A: 1 });
+    });
+
+    it("computes the threshold on the ballots cast or on the registered voters", () => {
+        for (const thresholdOf of ["ballotsCast", "registered"] as const) {
+            const attrib = superMajority<string>({ nSeats: 1, threshold: .55, thresholdOf });
+            expect(() => attrib(votes)).toThrow(AttributionFailure);
+        }
+        const attrib = superMajority<string>({ nSeats: 1, threshold: .25, thresholdOf: "registered", contingency: plurality({ nSeats: 1 }) });
+        expect(Object.fromEntries(attrib(votes).pos)).toEqual({ A: 1 });
+    });
+
+    it("requires the tally to record the turnout", () => {
+        const attrib = superMajority<string>({ nSeats: 1, threshold: .5, thresholdOf: "ballotsCast" });
+        expect(() => attrib(NumberCounter.fromEntries([["A", 6], ["B", 4]]))).toThrow("turnout");
+    });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { NumberCounter } from "@gouvernathor/python/collections";
+import {
+    boundedRankIndexMethod,
+    defaultMetric,
+    dHondtIndex,
+    effectiveNumberOfParties,
+    gallagherIndex,
+    loosemoreHanbyIndex,
+    raeIndex,
+    rankIndexFunctionFromDivisorFunction,
+    sainteLagueIndex,
+} from "../../../src/election/attribution";
+
+// C wins votes but no seat
+const votes = NumberCounter.fromEntries([["A", 50], ["B", 30], ["C", 20]]);
+const seats = NumberCounter.fromEntries([["A", 3], ["B", 2]]);
+
+describe("disproportionality metrics", () => {
+    it("computes the Gallagher index", () => {
+        expect(gallagherIndex({ votes, seats })).toBeCloseTo(Math.sqrt(.03));
+    });
+
+    it("computes the Loosemore-Hanby index", () => {
+        expect(loosemoreHanbyIndex({ votes, seats })).toBeCloseTo(.2);
+    });
+
+    it("computes the Rae index", () => {
+        expect(raeIndex({ votes, seats })).toBeCloseTo(.4 / 3);
+    });
+
+    it("computes the Sainte-Laguë index", () => {
+        expect(sainteLagueIndex({ votes, seats })).toBeCloseTo(.01 / .5 + .01 / .3 + .04 / .2);
+    });
+
+    it("computes the D'Hondt index", () => {
+        expect(dHondtIndex({ votes, seats })).toBeCloseTo(.4 / .3);
+    });
+
+    it("counts the parties without seats in the default metric", () => {
+        expect(defaultMetric({ votes, seats })).toBeCloseTo(2 / 3);
+    });
+
+    it("gives 0 for a perfectly proportional attribution", () => {
+        const proportional = NumberCounter.fromEntries([["A", 5], ["B", 3], ["C", 2]]);
+        for (const metric of [gallagherIndex, loosemoreHanbyIndex, raeIndex, sainteLagueIndex, defaultMetric]) {
+            expect(metric({ votes, seats: proportional })).toBeCloseTo(0);
+        }
+        expect(dHondtIndex({ votes, seats: proportional })).toBeCloseTo(1);
+    });
+});
+
+describe("incremental metrics", () => {
+    it.each(Object.entries({ gallagherIndex, sainteLagueIndex, dHondtIndex }))("follows the %s seat after seat", (_, metric) => {
+        const incremental = metric.incremental!({ votes, seats });
+        const current = NumberCounter.fromEntries(seats);
+        for (const party of ["C", "A", "C", "B", "A", "A"]) {
+            current.increment(party);
+            expect(incremental.addSeat(party)).toBeCloseTo(metric({ votes, seats: current }));
+        }
+    });
+});
+
+describe("effectiveNumberOfParties", () => {
+    it("computes the effective number of parties by votes and by seats", () => {
+        expect(effectiveNumberOfParties(votes)).toBeCloseTo(1 / .38);
+        expect(effectiveNumberOfParties(seats)).toBeCloseTo(1 / .52);
+    });
+
+    it("gives 0 for an empty counter", () => {
+        expect(effectiveNumberOfParties(NumberCounter.fromEntries<string>())).toBe(0);
+    });
+});
+
+describe("boundedRankIndexMethod", () => {
+    it.each(Object.entries({ gallagherIndex, sainteLagueIndex }))("optimizes for the %s", (_, metric) => {
+        const attrib = boundedRankIndexMethod<string>({
+            minNSeats: 1,
+            maxNSeats: 20,
+            rankIndexFunction: rankIndexFunctionFromDivisorFunction(k => k + .5),
+            metric,
+        });
+        expect(Object.fromEntries(attrib(votes).pos)).toEqual({ A: 5, B: 3, C: 2 });
+    });
+});
@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import {
+    AttributionFailure,
+    bordaCount,
+    instantRunoff,
+    singleTransferableVote,
+    traceAttribution,
+} from "../../../src/election/attribution";
+import { type Order, OrderProfile } from "../../../src/election/tally";
+
+function repeat<T>(n: number, ballot: T): T[] {
+    return Array.from({ length: n }, () => ballot);
+}
+
+describe("instantRunoff", () => {
+    // the ballots ranking only C are exhausted once C is eliminated
+    const votes: Order<string> = [...repeat(4, ["A"]), ...repeat(3, ["B", "C"]), ...repeat(2, ["C"]), ...repeat(2, ["D"])];
+
+    it("computes the majority on the remaining ballots by default", () => {
+        const { seats, trace } = traceAttribution(instantRunoff<string>({ nSeats: 1 }), votes);
+        expect(Object.fromEntries(seats.pos)).toEqual({ A: 1 });
+        expect(trace.filter(step => step.kind === "round")).toHaveLength(3);
+    });
+
+    it("counts until one party remains when the majority is computed on all the ballots", () => {
+        const { seats, trace } = traceAttribution(instantRunoff<string>({ nSeats: 1, majority: "allBallots" }), votes);
+        expect(Object.fromEntries(seats.pos)).toEqual({ A: 1 });
+        expect(trace.filter(step => step.kind === "round")).toHaveLength(4);
+    });
+
+    it("eliminates first the parties ranked first by no ballot", () => {
+        const votes: Order<string> = [...repeat(2, ["A", "C"]), ...repeat(2, ["B", "C"]), ["D", "B"]];
+        const { trace } = traceAttribution(instantRunoff<string>({ nSeats: 1 }), votes);
+        expect(trace).toContainEqual(expect.objectContaining({ round: 1, eliminated: ["C"] }));
+    });
+
+    it("counts the ballots as their weights", () => {
+        const ballots: Order<string> = [["A"], ["B", "A"], ["C", "B"]];
+        expect(Object.fromEntries(instantRunoff<string>({ nSeats: 1 })(ballots).pos)).toEqual({ B: 1 });
+        const weighted: Order<string> = Object.assign([...ballots], { weights: [3, 1, 2] });
+        expect(Object.fromEntries(instantRunoff<string>({ nSeats: 1 })(weighted).pos)).toEqual({ A: 1 });
+    });
+
+    it("fails when no ballot ranks any party", () => {
+        expect(() => instantRunoff<string>({ nSeats: 1 })([[], []])).toThrow(AttributionFailure);
+    });
+});
+
+describe("bordaCount", () => {
+    const votes: Order<string> = [...repeat(3, ["A"]), ...repeat(2, ["B", "C", "A"])];
+    const scores = (unranked?: "modified" | "pessimistic" | "averaged") =>
+        traceAttribution(bordaCount<string>({ nSeats: 1, unranked }), votes).trace
+            .flatMap(step => step.kind === "scores" ? step.scores : []);
+
+    it("gives points from the number of ranked parties with the modified Borda count", () => {
+        expect(Object.fromEntries(scores())).toEqual({ A: 5, B: 6, C: 4 });
+        expect(Object.fromEntries(bordaCount<string>({ nSeats: 1 })(votes).pos)).toEqual({ B: 1 });
+    });
+
+    it("gives the points of a full ranking to the ranked parties", () => {
+        expect(Object.fromEntries(scores("pessimistic"))).toEqual({ A: 6, B: 4, C: 2 });
+        expect(Object.fromEntries(bordaCount<string>({ nSeats: 1, unranked: "pessimistic" })(votes).pos)).toEqual({ A: 1 });
+    });
+
+    it("splits the remaining points between the unranked parties", () => {
+        expect(Object.fromEntries(scores("averaged"))).toEqual({ A: 6, B: 5.5, C: 3.5 });
+    });
+});
+
+describe("singleTransferableVote", () => {
+    // the classic example of choosing the food for a party
+    const food: Order<string> = [
+        ...repeat(4, ["Oranges"]),
+        ...repeat(2, ["Pears", "Oranges"]),
+        ...repeat(8, ["Chocolate", "Strawberries"]),
+        ...repeat(4, ["Chocolate", "Sweets"]),
+        ["Strawberries"],
+        ["Sweets"],
+    ];
+
+    it.each(["weightedInclusiveGregory", "gregory"] as const)("elects the textbook winners with the %s transfer", transfer => {
+        const seats = singleTransferableVote<string>({ nSeats: 3, transfer })(food);
+        expect(Object.fromEntries(seats.pos)).toEqual({ Chocolate: 1, Oranges: 1, Strawberries: 1 });
+    });
+
+    it("is reproducible with a seeded random transfer", () => {
+        const attribution = singleTransferableVote<string>({ nSeats: 3, transfer: "random", randomSeed: 7 });
+        const seats = attribution(food);
+        expect(seats.total).toBe(3);
+        expect(seats.get("Chocolate")).toBe(1);
+        expect(Object.fromEntries(attribution(food))).toEqual(Object.fromEntries(seats));
+    });
+
+    it.each(["weightedInclusiveGregory", "gregory"] as const)("elects the same winners from a compressed profile with the %s transfer", transfer => {
+        const attribution = singleTransferableVote<string>({ nSeats: 3, transfer });
+        expect(attribution(OrderProfile.fromOrder(food))).toEqual(attribution(food));
+    });
+
+    it("transfers the surplus of a compressed profile at random", () => {
+        const profile = OrderProfile.fromOrder(food);
+        const attribution = singleTransferableVote<string>({ nSeats: 3, transfer: "random", randomSeed: 7 });
+        const seats = attribution(profile);
+        expect(seats.total).toBe(3);
+        expect(seats.get("Chocolate")).toBe(1);
+        expect(attribution(profile)).toEqual(seats);
+    });
+
+    it("draws the surplus of heavy ballots without listing them", () => {
+        const profile = OrderProfile.fromRankings<string>([
+            [["A", "B"], 3_000_000],
+            [["C"], 1_000_000],
+            [["B"], 500_000],
+        ]);
+        const seats = singleTransferableVote<string>({ nSeats: 2, transfer: "random", randomSeed: 1 })(profile);
+        expect(Object.fromEntries(seats.pos)).toEqual({ A: 1, B: 1 });
+    });
+
+    it("rejects non-integer ballot weights in the random transfer", () => {
+        const profile = OrderProfile.fromRankings<string>([[["A", "B"], 3.5], [["B"], 1]]);
+        expect(() => singleTransferableVote<string>({ nSeats: 1, transfer: "random" })(profile)).toThrow();
+    });
+
+    it("breaks elimination ties by looking back at the previous counts", () => {
+        // B and C are tied at the second count, C having had fewer votes at the first
+        const votes: Order<string> = [
+            ...repeat(5, ["A"]),
+            ...repeat(3, ["B", "C"]),
+            ...repeat(2, ["C", "B"]),
+            ["D", "C", "B"],
+        ];
+        const seats = singleTransferableVote<string>({ nSeats: 1 })(votes);
+        expect(Object.fromEntries(seats.pos)).toEqual({ B: 1 });
+    });
+
+    it("elects fewer candidates than seats when there are not enough candidates", () => {
+        const seats = singleTransferableVote<string>({ nSeats: 3 })([["A"], ["B", "A"], []]);
+        expect(Object.fromEntries(seats.pos)).toEqual({ A: 1, B: 1 });
+    });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { condorcet, copeland, kemenyYoung, minimax, rankedPairs, schulze } from "../../../src/election/attribution";
+import { type Order, Pairwise } from "../../../src/election/tally";
+
+function repeat<T>(n: number, ballot: T): T[] {
+    return Array.from({ length: n }, () => ballot);
+}
+
+// the classic choice of a capital for Tennessee, Nashville being the Condorcet winner
+const tennessee: Order<string> = [
+    ...repeat(42, ["Memphis", "Nashville", "Chattanooga", "Knoxville"]),
+    ...repeat(26, ["Nashville", "Chattanooga", "Knoxville", "Memphis"]),
+    ...repeat(15, ["Chattanooga", "Knoxville", "Nashville", "Memphis"]),
+    ...repeat(17, ["Knoxville", "Chattanooga", "Nashville", "Memphis"]),
+];
+
+// the example from the Schulze method's description, with no Condorcet winner
+const schulzeExample: Order<string> = [
+    ...repeat(5, ["A", "C", "B", "E", "D"]),
+    ...repeat(5, ["A", "D", "E", "C", "B"]),
+    ...repeat(8, ["B", "E", "D", "A", "C"]),
+    ...repeat(3, ["C", "A", "B", "E", "D"]),
+    ...repeat(7, ["C", "A", "E", "B", "D"]),
+    ...repeat(2, ["C", "B", "A", "D", "E"]),
+    ...repeat(7, ["D", "C", "E", "B", "A"]),
+    ...repeat(8, ["E", "B", "A", "D", "C"]),
+];
+
+describe("Pairwise.fromOrder", () => {
+    it("counts the ballots preferring each party to each other", () => {
+        const pairwise = Pairwise.fromOrder(tennessee);
+        expect(pairwise.get("Nashville").get("Memphis")).toBe(58);
+        expect(pairwise.get("Memphis").get("Nashville")).toBe(42);
+        expect(pairwise.get("Chattanooga").get("Knoxville")).toBe(83);
+        expect(pairwise.get("Knoxville").get("Chattanooga")).toBe(17);
+    });
+
+    it("prefers ranked parties to unranked ones, and leaves unranked pairs uncompared", () => {
+        const pairwise = Pairwise.fromOrder([["A"], ["B", "C"]]);
+        expect(pairwise.get("A").get("B")).toBe(1);
+        expect(pairwise.get("A").get("C")).toBe(1);
+        expect(pairwise.get("B").get("A")).toBe(1);
+        expect(pairwise.get("B").get("C")).toBe(1);
+        expect(pairwise.get("C").get("A")).toBe(1);
+        expect(pairwise.get("C").get("B")).toBe(0);
+    });
+
+    it("counts the ballots as their weights", () => {
+        const pairwise = Pairwise.fromOrder(Object.assign([["A"], ["B"], ["C", "B"]], { weights: [3, 2, 2] }));
+        expect(pairwise.get("A").get("B")).toBe(3);
+        expect(pairwise.get("B").get("A")).toBe(4);
+        expect(pairwise.get("C").get("B")).toBe(2);
+    });
+
+    it("only compares the ranked parties when asked to", () => {
+        const pairwise = Pairwise.fromOrder([["A"], ["B", "C"]], { rankedOverUnranked: false });
+        expect(pairwise.get("A").get("B")).toBe(0);
+        expect(pairwise.get("B").get("A")).toBe(0);
+        expect(pairwise.get("B").get("C")).toBe(1);
+    });
+});
+
+describe("condorcet", () => {
+    it("lets the truncated ballots prefer the parties they rank, unless told otherwise", () => {
+        const votes: Order<string> = [...repeat(3, ["A"]), ...repeat(2, ["B", "A"])];
+        expect(Object.fromEntries(condorcet<string>({ nSeats: 1 })(votes).pos)).toEqual({ A: 1 });
+        expect(Object.fromEntries(condorcet<string>({ nSeats: 1, rankedOverUnranked: false })(votes).pos)).toEqual({ B: 1 });
+    });
+});
+
+describe("Condorcet completion methods", () => {
+    const methods = {
+        schulze: schulze<string>({ nSeats: 1 }),
+        rankedPairs: rankedPairs<string>({ nSeats: 1 }),
+        copeland: copeland<string>({ nSeats: 1 }),
+        minimax: minimax<string>({ nSeats: 1 }),
+        kemenyYoung: kemenyYoung<string>({ nSeats: 1 }),
+    };
+
+    it.each(Object.entries(methods))("%s elects the Condorcet winner", (_, attrib) => {
+        expect(Object.fromEntries(attrib(tennessee).pos)).toEqual({ Nashville: 1 });
+    });
+
+    it.each(Object.entries(methods))("%s accepts precomputed pairwise preferences", (_, attrib) => {
+        expect(Object.fromEntries(attrib(Pairwise.fromOrder(tennessee)).pos)).toEqual({ Nashville: 1 });
+    });
+
+    it("resolves a Condorcet cycle with Schulze", () => {
+        expect(() => condorcet<string>({ nSeats: 1 })(schulzeExample)).toThrow(condorcet.Standoff);
+        expect(Object.fromEntries(schulze<string>({ nSeats: 1 })(schulzeExample).pos)).toEqual({ E: 1 });
+        expect(Object.fromEntries(schulze<string>({ nSeats: 1, strength: "winningVotes" })(schulzeExample).pos)).toEqual({ E: 1 });
+    });
+
+    it("resolves a Condorcet cycle with ranked pairs", () => {
+        // by margin, B>A and E>A are skipped as they would close a cycle
+        expect(Object.fromEntries(rankedPairs<string>({ nSeats: 1 })(schulzeExample).pos)).toEqual({ A: 1 });
+    });
+});
@@ -0,0 +1,179 @@
+import { describe, expect, it } from "vitest";
+import { NumberCounter } from "@gouvernathor/python/collections";
+import {
+    adams,
+    AttributionFailure,
+    danish,
+    dean,
+    droopLargestRemainders,
+    flooredRankIndexMethod,
+    hagenbachBischoffLargestRemainders,
+    hamilton,
+    huntingtonHill,
+    imperialiLargestRemainders,
+    jefferson,
+    modifiedSainteLague,
+    rankIndexFunctionFromDivisorFunction,
+    stationaryDivisorMethod,
+    traceAttribution,
+    webster,
+} from "../../../src/election/attribution";
+
+const votes = NumberCounter.fromEntries([["A", 600], ["B", 300], ["C", 90]]);
+
+describe("initialSeats", () => {
+    const initialSeats = NumberCounter.fromEntries([["C", 3]]);
+
+    it("apportions the remaining seats with a divisor method", () => {
+        const attrib = jefferson<string>({ nSeats: 10 });
+        expect(Object.fromEntries(attrib(votes).pos)).toEqual({ A: 6, B: 3, C: 1 });
+        // C's initial seats make it the least deserving party
+        expect(Object.fromEntries(attrib(votes, { initialSeats }).pos)).toEqual({ A: 5, B: 2, C: 3 });
+    });
+
+    it("apportions the remaining seats along the shortfalls with hamilton", () => {
+        const attrib = hamilton<string>({ nSeats: 10 });
+        // the shortfalls are A 6.06 and B 3.03, for 7 seats
+        expect(Object.fromEntries(attrib(votes, { initialSeats }).pos)).toEqual({ A: 5, B: 2, C: 3 });
+    });
+
+    it("keeps initial seats covering all the seats", () => {
+        const attrib = webster<string>({ nSeats: 3 });
+        expect(Object.fromEntries(attrib(votes, { initialSeats }).pos)).toEqual({ C: 3 });
+    });
+
+    it("rejects more initial seats than seats to allocate", () => {
+        const attrib = jefferson<string>({ nSeats: 2 });
+        expect(() => attrib(votes, { initialSeats })).toThrow();
+    });
+});
+
+describe("flooredRankIndexMethod", () => {
+    const rankIndexFunction = rankIndexFunctionFromDivisorFunction(k => k + 1);
+
+    it("allocates seats until each party has the minimum", () => {
+        const attrib = flooredRankIndexMethod<string>({ rankIndexFunction, minNSeats: 0 });
+        expect(Object.fromEntries(attrib(votes).pos)).toEqual({ A: 6, B: 3, C: 1 });
+    });
+
+    it("stops at the maximum number of seats", () => {
+        const attrib = flooredRankIndexMethod<string>({ rankIndexFunction, maxNSeats: 4 });
+        expect(Object.fromEntries(attrib(votes).pos)).toEqual({ A: 3, B: 1 });
+    });
+
+    it("counts the initial seats towards the minimums", () => {
+        const attrib = flooredRankIndexMethod<string>({ rankIndexFunction });
+        const initialSeats = NumberCounter.fromEntries([["C", 1]]);
+        expect(Object.fromEntries(attrib(votes, { initialSeats }).pos)).toEqual({ A: 1, B: 1, C: 1 });
+    });
+});
+
+describe("largest remainders from a quota", () => {
+    it("gives the remaining seats to the largest remainders", () => {
+        // a Droop quota of 166: A 3 seats remainder 102, B 1 seat remainder 134, C remainder 90
+        expect(Object.fromEntries(droopLargestRemainders<string>({ nSeats: 5 })(votes).pos)).toEqual({ A: 3, B: 2 });
+        // a Hagenbach-Bischoff quota of 165: A 3 seats remainder 105, B 1 seat remainder 135, C remainder 90
+        expect(Object.fromEntries(hagenbachBischoffLargestRemainders<string>({ nSeats: 5 })(votes).pos))
+            .toEqual({ A: 3, B: 2 });
+    });
+
+    it("takes back the seats over-allocated by the Imperiali quota", () => {
+        // a quota of 200 gives A 2 seats, B 1 and C 1 for 3 seats
+        const votes = NumberCounter.fromEntries([["A", 500], ["B", 300], ["C", 200]]);
+        expect(Object.fromEntries(imperialiLargestRemainders<string>({ nSeats: 3 })(votes).pos)).toEqual({ A: 2, B: 1 });
+    });
+
+    it("takes back several seats from a single party", () => {
+        const votes = NumberCounter.fromEntries([["A", 1000]]);
+        expect(Object.fromEntries(imperialiLargestRemainders<string>({ nSeats: 10 })(votes).pos)).toEqual({ A: 10 });
+        expect(Object.fromEntries(imperialiLargestRemainders<string>({ nSeats: 1 })(votes).pos)).toEqual({ A: 1 });
+    });
+
+    it("falls back to another quota or fails on over-allocation", () => {
+        const votes = NumberCounter.fromEntries([["A", 1000]]);
+        expect(Object.fromEntries(imperialiLargestRemainders<string>({ nSeats: 10, overAllocation: "fallbackQuota" })(votes).pos))
+            .toEqual({ A: 10 });
+        expect(() => imperialiLargestRemainders<string>({ nSeats: 10, overAllocation: "fail" })(votes))
+            .toThrow(AttributionFailure);
+    });
+});
+
+describe("divisor methods", () => {
+    const votes = NumberCounter.fromEntries([["A", 5300], ["B", 2900], ["C", 1200], ["D", 600]]);
+
+    it.each([["adams", adams], ["dean", dean]] as const)("%s gives a seat to every party first", (_, method) => {
+        // Dean's next divisors are 4/3, 12/5, 24/7...
+        const attrib = method<string>({ nSeats: 7, threshold: 0 });
+        expect(Object.fromEntries(attrib(votes).pos)).toEqual({ A: 3, B: 2, C: 1, D: 1 });
+    });
+
+    it("follows the divisors of the danish method", () => {
+        // A 5300, 1325, 757 ; B 2900, 725 ; C 1200 ; D 600
+        expect(Object.fromEntries(danish<string>({ nSeats: 7 })(votes).pos)).toEqual({ A: 3, B: 2, C: 1, D: 1 });
+        expect(Object.fromEntries(webster<string>({ nSeats: 7 })(votes).pos)).toEqual({ A: 4, B: 2, C: 1 });
+    });
+
+    it("raises the first divisor with the modified Sainte-Laguë method", () => {
+        expect(Object.fromEntries(webster<string>({ nSeats: 5 })(votes).pos)).toEqual({ A: 3, B: 1, C: 1 });
+        // C's first quotient drops to 1200 / 1.4, below B's second one of 2900 / 3
+        expect(Object.fromEntries(modifiedSainteLague<string>({ nSeats: 5 })(votes).pos)).toEqual({ A: 3, B: 2 });
+    });
+
+    it("matches the named stationary divisor methods", () => {
+        for (const nSeats of [5, 7, 10]) {
+            expect(stationaryDivisorMethod<string>({ nSeats, r: 1 })(votes).pos)
+                .toEqual(jefferson<string>({ nSeats })(votes).pos);
+            expect(stationaryDivisorMethod<string>({ nSeats, r: 1 / 3 })(votes).pos)
+                .toEqual(danish<string>({ nSeats })(votes).pos);
+        }
+        expect(() => stationaryDivisorMethod<string>({ nSeats: 5, r: 0 })).toThrow();
+    });
+});
+
+describe("rank-index methods on tied values", () => {
+    // the seats given by the former seat-by-seat implementation,
+    // the quotients being tied for many of the seats
+    const votes = NumberCounter.fromEntries([["A", 20], ["B", 30], ["C", 60], ["D", 40]]);
+    const expected = {
+        jefferson: {
+            3: { B: 1, C: 1, D: 1 },
+            4: { B: 1, C: 2, D: 1 },
+            5: { A: 1, B: 1, C: 2, D: 1 },
+            8: { A: 1, B: 2, C: 3, D: 2 },
+            11: { A: 1, B: 2, C: 5, D: 3 },
+            13: { A: 2, B: 3, C: 5, D: 3 },
+        },
+        webster: {
+            4: { A: 1, B: 1, C: 1, D: 1 },
+            11: { A: 2, B: 2, C: 4, D: 3 },
+            12: { A: 2, B: 2, C: 5, D: 3 },
+        },
+        huntingtonHill: {
+            3: { B: 1, C: 1, D: 1 },
+            11: { A: 2, B: 2, C: 4, D: 3 },
+        },
+    };
+    const factories = {
+        jefferson,
+        webster,
+        huntingtonHill: ({ nSeats }: { nSeats: number }) => huntingtonHill<string>({ nSeats, threshold: 0 }),
+    };
+
+    it.each(Object.entries(expected))("%s keeps the seats of the seat-by-seat implementation", (name, cases) => {
+        for (const [nSeats, seats] of Object.entries(cases)) {
+            const attrib = factories[name as keyof typeof factories]<string>({ nSeats: Number(nSeats) });
+            expect(Object.fromEntries(attrib(votes).pos)).toEqual(seats);
+            expect(Object.fromEntries(traceAttribution(attrib, votes).seats.pos)).toEqual(seats);
+        }
+    });
+
+    it("favors the parties appearing last in the tally, then those tied the longest ago", () => {
+        const votes = NumberCounter.fromEntries([["A", 30], ["B", 20], ["C", 20], ["D", 30], ["E", 20]]);
+        const seats = (nSeats: number) => Object.fromEntries(jefferson<string>({ nSeats })(votes).pos);
+        expect(seats(1)).toEqual({ D: 1 });
+        expect(seats(3)).toEqual({ A: 1, D: 1, E: 1 });
+        expect(seats(6)).toEqual({ A: 1, B: 1, C: 1, D: 2, E: 1 });
+        expect(seats(7)).toEqual({ A: 2, B: 1, C: 1, D: 2, E: 1 });
+        expect(seats(8)).toEqual({ A: 2, B: 1, C: 1, D: 2, E: 2 });
+    });
+});
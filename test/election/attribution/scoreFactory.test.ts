@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import {
+    allocatedScore,
+    majorityJudgment,
+    meritProfiles,
+    reweightedRangeVoting,
+    star,
+} from "../../../src/election/attribution";
+import { Scores } from "../../../src/election/tally";
+import { tallyScoreToScoreProfile } from "../../../src/election/tallying";
+
+function repeat<T>(n: number, ballot: T): T[] {
+    return Array.from({ length: n }, () => ballot);
+}
+
+function factions(nA: number, nB: number) {
+    const grades = (faction: string) => new Map(["A", "B"].flatMap(f =>
+        [1, 2, 3, 4, 5].map(i => [f + i, f === faction ? 5 : 0] as const)));
+    return tallyScoreToScoreProfile([...repeat(nA, grades("A")), ...repeat(nB, grades("B"))], { nScores: 6 });
+}
+
+function seatsByFaction(seats: ReadonlyMap<string, number>) {
+    const byFaction: Record<string, number> = {};
+    for (const [party, nSeats] of seats) {
+        expect(nSeats).toBe(1);
+        byFaction[party[0]!] = (byFaction[party[0]!] ?? 0) + nSeats;
+    }
+    return byFaction;
+}
+
+describe("star", () => {
+    it("elects the textbook winner for the capital of Tennessee", () => {
+        const votes = tallyScoreToScoreProfile([
+            ...repeat(42, new Map([["Memphis", 5], ["Nashville", 2], ["Chattanooga", 1], ["Knoxville", 0]])),
+            ...repeat(26, new Map([["Memphis", 0], ["Nashville", 5], ["Chattanooga", 3], ["Knoxville", 2]])),
+            ...repeat(15, new Map([["Memphis", 0], ["Nashville", 2], ["Chattanooga", 5], ["Knoxville", 4]])),
+            ...repeat(17, new Map([["Memphis", 0], ["Nashville", 2], ["Chattanooga", 4], ["Knoxville", 5]])),
+        ], { nScores: 6 });
+        expect(Object.fromEntries(star<string>({ nSeats: 1 })(votes).pos)).toEqual({ Nashville: 1 });
+    });
+
+    it("lets the runoff overturn the highest total score", () => {
+        const votes = tallyScoreToScoreProfile([
+            ...repeat(3, new Map([["A", 5], ["B", 4]])),
+            ...repeat(2, new Map([["A", 0], ["B", 5]])),
+        ], { nScores: 6 });
+        expect(Object.fromEntries(star<string>({ nSeats: 3 })(votes).pos)).toEqual({ A: 3 });
+    });
+});
+
+describe("reweightedRangeVoting", () => {
+    it("mimics the D'Hondt method by default", () => {
+        const attrib = reweightedRangeVoting<string>({ nSeats: 3 });
+        expect(seatsByFaction(attrib(factions(8, 2)).pos)).toEqual({ A: 3 });
+    });
+
+    it("mimics the Sainte-Laguë method with c = 1/2", () => {
+        const attrib = reweightedRangeVoting<string>({ nSeats: 3, c: 1 / 2 });
+        expect(seatsByFaction(attrib(factions(8, 2)).pos)).toEqual({ A: 2, B: 1 });
+    });
+});
+
+describe("allocatedScore", () => {
+    it("shares the seats between the factions", () => {
+        const attrib = allocatedScore<string>({ nSeats: 5 });
+        expect(seatsByFaction(attrib(factions(6, 4)).pos)).toEqual({ A: 3, B: 2 });
+    });
+
+    it("attributes fewer seats than nSeats when too few candidates are graded", () => {
+        const attrib = allocatedScore<string>({ nSeats: 3 });
+        const votes = tallyScoreToScoreProfile([new Map([["A", 2]]), new Map()], { nScores: 3 });
+        expect(Object.fromEntries(attrib(votes).pos)).toEqual({ A: 1 });
+    });
+});
+
+describe("majorityJudgment", () => {
+    it("elects the candidate with the highest majority grade", () => {
+        const votes = Scores.fromEntries([
+            ["A", [3, 3, 4]],
+            ["B", [0, 4, 6]],
+        ]);
+        expect(meritProfiles(votes).get("A")).toEqual({
+            shares: [.3, .3, .4],
+            majorityGrade: 1,
+            proponents: .4,
+            opponents: .3,
+        });
+        expect(Object.fromEntries(majorityJudgment<string>({ nSeats: 2 })(votes).pos)).toEqual({ B: 2 });
+    });
+
+    // A has few opponents and many proponents, B has slightly more proponents than opponents
+    const tied = Scores.fromEntries([
+        ["A", [5, 50, 45]],
+        ["B", [47, 5, 48]],
+    ]);
+
+    it("breaks ties with the majority gauge by default", () => {
+        expect(Object.fromEntries(majorityJudgment<string>({ nSeats: 1 })(tied).pos)).toEqual({ B: 1 });
+    });
+
+    it.each(["usual", "typical"] as const)("breaks ties with the %s judgment", variant => {
+        expect(Object.fromEntries(majorityJudgment<string>({ nSeats: 1, variant })(tied).pos)).toEqual({ A: 1 });
+    });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { NumberCounter } from "@gouvernathor/python/collections";
+import {
+    averageScore,
+    bordaCount,
+    candidateOrderTieBreak,
+    failTieBreak,
+    hamilton,
+    huntingtonHill,
+    instantRunoff,
+    jefferson,
+    mostVotesTieBreak,
+    plurality,
+    randomTieBreak,
+    TieFailure,
+    webster,
+} from "../../../src/election/attribution";
+import { type Order, Scores } from "../../../src/election/tally";
+
+const tied = NumberCounter.fromEntries([["A", 100], ["B", 100], ["C", 50]]);
+
+describe("default tie-breaking", () => {
+    it("gives the seat to the party appearing last in the tally in divisor methods", () => {
+        expect(Object.fromEntries(jefferson<string>({ nSeats: 1 })(tied).pos)).toEqual({ B: 1 });
+        expect(Object.fromEntries(webster<string>({ nSeats: 1 })(tied).pos)).toEqual({ B: 1 });
+    });
+
+    it("gives the last tied seats to the parties appearing last in the tally", () => {
+        expect(Object.fromEntries(jefferson<string>({ nSeats: 3 })(tied).pos)).toEqual({ A: 1, B: 1, C: 1 });
+        expect(Object.fromEntries(jefferson<string>({ nSeats: 4 })(tied).pos)).toEqual({ A: 1, B: 2, C: 1 });
+    });
+
+    it("gives the first seats to the parties appearing last in the tally in huntingtonHill", () => {
+        const attrib = (nSeats: number) => huntingtonHill<string>({ nSeats, threshold: 0 });
+        expect(Object.fromEntries(attrib(1)(tied).pos)).toEqual({ C: 1 });
+        expect(Object.fromEntries(attrib(2)(tied).pos)).toEqual({ B: 1, C: 1 });
+    });
+
+    it("gives the remainder seat to the party appearing first in the tally in hamilton", () => {
+        expect(Object.fromEntries(hamilton<string>({ nSeats: 1 })(tied).pos)).toEqual({ A: 1 });
+    });
+
+    it("elects the party appearing last in the tally in plurality", () => {
+        expect(Object.fromEntries(plurality<string>({ nSeats: 1 })(tied).pos)).toEqual({ B: 1 });
+    });
+
+    it("elects the party appearing last in the tally in averageScore", () => {
+        const scores = Scores.fromEntries([["A", [0, 1, 1]], ["B", [0, 1, 1]], ["C", [1, 1, 0]]]);
+        expect(Object.fromEntries(averageScore<string>({ nSeats: 1 })(scores).pos)).toEqual({ B: 1 });
+    });
+
+    it("eliminates the party appearing last in the tally in instantRunoff", () => {
+        const votes: Order<string> = [["A"], ["B"], ["C"], ["C"], ["A", "C"], ["B", "C"]];
+        expect(Object.fromEntries(instantRunoff<string>({ nSeats: 1 })(votes).pos)).toEqual({ A: 1 });
+    });
+});
+
+describe("tie-breaking policies", () => {
+    // A and C are tied in Borda score, C has more first preferences
+    const votes: Order<string> = [["A", "B", "C"], ["C", "A", "B"], ["C", "A", "B"]];
+
+    it("favors the parties with the most first-round votes", () => {
+        expect(Object.fromEntries(bordaCount<string>({ nSeats: 1 })(votes).pos)).toEqual({ A: 1 });
+        const attrib = bordaCount<string>({ nSeats: 1, tieBreak: mostVotesTieBreak() });
+        expect(Object.fromEntries(attrib(votes).pos)).toEqual({ C: 1 });
+    });
+
+    it("falls back when the parties are also tied in the first round", () => {
+        const attrib = jefferson<string>({ nSeats: 1, tieBreak: mostVotesTieBreak({ fallback: candidateOrderTieBreak({ order: ["A"] }) }) });
+        expect(Object.fromEntries(attrib(tied).pos)).toEqual({ A: 1 });
+    });
+
+    it("favors the parties coming first in the given order", () => {
+        const tieBreak = candidateOrderTieBreak<string>({ order: ["C", "A", "B"] });
+        expect(Object.fromEntries(jefferson<string>({ nSeats: 1, tieBreak })(tied).pos)).toEqual({ A: 1 });
+        expect(Object.fromEntries(huntingtonHill<string>({ nSeats: 2, threshold: 0, tieBreak })(tied).pos)).toEqual({ A: 1, C: 1 });
+    });
+
+    it("fails with the list of the tied parties", () => {
+        const attrib = plurality<string>({ nSeats: 1, tieBreak: failTieBreak() });
+        expect(() => attrib(tied)).toThrow(TieFailure);
+        try {
+            attrib(tied);
+        } catch (error) {
+            expect([...(error as TieFailure<string>).parties].sort()).toEqual(["A", "B"]);
+        }
+    });
+
+    it("does not call the policy when the tie makes no difference", () => {
+        const attrib = jefferson<string>({ nSeats: 2, tieBreak: failTieBreak() });
+        expect(Object.fromEntries(attrib(tied).pos)).toEqual({ A: 1, B: 1 });
+    });
+
+    it("is reproducible when seeded", () => {
+        const results = Array.from({ length: 3 }, () =>
+            Object.fromEntries(plurality<string>({ nSeats: 1, tieBreak: randomTieBreak({ randomSeed: 42 }) })(tied).pos));
+        expect(results[1]).toEqual(results[0]);
+        expect(results[2]).toEqual(results[0]);
+    });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { NumberCounter } from "@gouvernathor/python/collections";
+import {
+    condorcet,
+    hamilton,
+    imperialiLargestRemainders,
+    instantRunoff,
+    jefferson,
+    plurality,
+    traceAttribution,
+} from "../../../src/election/attribution";
+import { type Order } from "../../../src/election/tally";
+
+function repeat<T>(n: number, ballot: T): T[] {
+    return Array.from({ length: n }, () => ballot);
+}
+
+describe("traceAttribution", () => {
+    const votes = NumberCounter.fromEntries([["A", 550], ["B", 300], ["C", 150]]);
+
+    it("records the quotients winning each seat in a divisor method", () => {
+        const { seats, trace } = traceAttribution(jefferson<string>({ nSeats: 4 }), votes);
+        expect(Object.fromEntries(seats.pos)).toEqual({ A: 3, B: 1 });
+        expect(trace.map(step => step.kind === "rankIndex" && [step.seat, step.party]))
+            .toEqual([[1, "A"], [2, "B"], [3, "A"], [4, "A"]]);
+    });
+
+    it("records the remainders of a largest-remainders method", () => {
+        const { trace } = traceAttribution(hamilton<string>({ nSeats: 4 }), votes);
+        expect(trace).toEqual([{
+            kind: "remainders",
+            attribution: "hamilton",
+            quota: 250,
+            fullSeats: [["A", 2], ["B", 1], ["C", 0]],
+            remainders: [["A", 50], ["B", 50], ["C", 150]],
+            remainderSeats: [["C", 1]],
+        }]);
+    });
+
+    it("records the seats taken back from the smallest remainders", () => {
+        const { trace } = traceAttribution(imperialiLargestRemainders<string>({ nSeats: 3 }),
+            NumberCounter.fromEntries([["A", 500], ["B", 300], ["C", 200]]));
+        expect(trace).toMatchObject([{ kind: "remainders", quota: 200, remainderSeats: [["C", -1]] }]);
+    });
+
+    it("records the rounds of instant-runoff voting", () => {
+        const ballots: Order<string> = [...repeat(3, ["A"]), ...repeat(3, ["B"]), ["C", "B"]];
+        const { seats, trace } = traceAttribution(instantRunoff<string>({ nSeats: 1 }), ballots);
+        expect(Object.fromEntries(seats.pos)).toEqual({ B: 1 });
+        expect(trace).toEqual([
+            { kind: "round", attribution: "instantRunoff", round: 1, tally: [["A", 3], ["B", 3], ["C", 1]], elected: [], eliminated: ["C"] },
+            { kind: "round", attribution: "instantRunoff", round: 2, tally: [["A", 3], ["B", 4]], elected: ["B"], eliminated: [] },
+        ]);
+    });
+
+    it("records the pairwise preferences", () => {
+        const { trace } = traceAttribution(condorcet<string>({ nSeats: 1 }), [["A", "B"], ["A", "B"], ["B", "A"]]);
+        expect(trace).toEqual([{ kind: "pairwise", attribution: "condorcet", preferences: [["A", [["B", 2]]], ["B", [["A", 1]]]] }]);
+    });
+
+    it("records the ties and how they were broken", () => {
+        const { seats, trace } = traceAttribution(plurality<string>({ nSeats: 1 }), NumberCounter.fromEntries([["A", 1], ["B", 1]]));
+        expect(Object.fromEntries(seats.pos)).toEqual({ B: 1 });
+        expect(trace).toContainEqual({ kind: "tie", tied: ["B", "A"], order: ["B", "A"] });
+    });
+
+    it("produces a serializable trace", () => {
+        const { trace } = traceAttribution(jefferson<string>({ nSeats: 4 }), votes);
+        expect(JSON.parse(JSON.stringify(trace))).toEqual(trace);
+    });
+});
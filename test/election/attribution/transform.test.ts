@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { NumberCounter } from "@gouvernathor/python/collections";
+import { addListAlliances, addMajorityBonus, jefferson } from "../../../src/election/attribution";
+
+describe("addListAlliances", () => {
+    const votes = NumberCounter.fromEntries([["A", 62], ["B", 20], ["C", 18], ["D", 5]]);
+
+    it("lets allied parties win the seats they could not win alone", () => {
+        expect(Object.fromEntries(jefferson<string>({ nSeats: 3 })(votes).pos)).toEqual({ A: 3 });
+        const attrib = addListAlliances<string>({
+            attribution: jefferson<readonly string[]>({ nSeats: 3 }),
+            alliances: [["B", "C"]],
+            innerAttribution: jefferson,
+        });
+        expect(Object.fromEntries(attrib(votes).pos)).toEqual({ A: 2, B: 1 });
+        expect(attrib.nSeats).toBe(3);
+    });
+
+    it("splits the seats of an alliance following the inner attribution", () => {
+        // the alliance of B, C and D wins 2 seats out of 5
+        const attrib = addListAlliances<string>({
+            attribution: jefferson<readonly string[]>({ nSeats: 5 }),
+            alliances: [["B", "C", "D"]],
+            innerAttribution: jefferson,
+        });
+        expect(Object.fromEntries(attrib(votes).pos)).toEqual({ A: 3, B: 1, C: 1 });
+    });
+
+    it("ignores the allied parties which received no votes", () => {
+        const attrib = addListAlliances<string>({
+            attribution: jefferson<readonly string[]>({ nSeats: 3 }),
+            alliances: [["B", "C", "E"], ["F", "G"]],
+            innerAttribution: jefferson,
+        });
+        expect(Object.fromEntries(attrib(votes).pos)).toEqual({ A: 2, B: 1 });
+    });
+});
+
+describe("addMajorityBonus", () => {
+    const votes = NumberCounter.fromEntries([["A", 40], ["B", 35], ["C", 25]]);
+
+    it("gives fixed bonus seats to the winner before the proportional apportionment", () => {
+        const attrib = addMajorityBonus<string>({ nSeats: 10, attribution: jefferson, bonusSeats: 5 });
+        expect(Object.fromEntries(attrib(votes).pos)).toEqual({ A: 7, B: 2, C: 1 });
+        expect(attrib.nSeats).toBe(10);
+    });
+
+    it("tops the winner up to the guaranteed share of the seats", () => {
+        expect(Object.fromEntries(jefferson<string>({ nSeats: 10 })(votes).pos)).toEqual({ A: 4, B: 4, C: 2 });
+        const attrib = addMajorityBonus<string>({ nSeats: 10, attribution: jefferson, majorityShare: .55 });
+        expect(Object.fromEntries(attrib(votes).pos)).toEqual({ A: 6, B: 2, C: 2 });
+    });
+
+    it("gives no bonus to a winner already having the guaranteed share", () => {
+        const attrib = addMajorityBonus<string>({ nSeats: 10, attribution: jefferson, majorityShare: .3 });
+        expect(Object.fromEntries(attrib(votes).pos)).toEqual({ A: 4, B: 4, C: 2 });
+    });
+
+    it("gives no bonus to a winner below the required share of the votes", () => {
+        const attrib = addMajorityBonus<string>({ nSeats: 10, attribution: jefferson, bonusSeats: 5, minVoteShare: .45 });
+        expect(Object.fromEntries(attrib(votes).pos)).toEqual({ A: 4, B: 4, C: 2 });
+    });
+
+    it("rejects more bonus seats than seats", () => {
+        expect(() => addMajorityBonus<string>({ nSeats: 10, attribution: jefferson, bonusSeats: 11 })).toThrow();
+    });
+});
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { type Order, OrderProfile } from "../../src/election/tally";
+
+describe("OrderProfile", () => {
+    it("groups the identical rankings", () => {
+        const profile = OrderProfile.fromOrder<string>([["A", "B"], ["B"], ["A", "B"], ["B", "A"], ["B"]]);
+        expect([...profile]).toEqual([["A", "B"], ["B"], ["B", "A"]]);
+        expect(profile.weights).toEqual([2, 2, 1]);
+    });
+
+    it("sums the weights of the identical rankings", () => {
+        const profile = OrderProfile.fromRankings<string>([[["A"], 1.5], [["B", "A"], 2], [["A"], 3]]);
+        expect([...profile]).toEqual([["A"], ["B", "A"]]);
+        expect(profile.weights).toEqual([4.5, 2]);
+        expect(OrderProfile.fromOrder(profile).weights).toEqual([4.5, 2]);
+    });
+
+    it("expands back to one ballot per voter", () => {
+        const votes: Order<string> = [["A", "B"], ["B"], ["A", "B"]];
+        expect(OrderProfile.toOrder(OrderProfile.fromOrder(votes))).toEqual([["A", "B"], ["A", "B"], ["B"]]);
+        expect(() => OrderProfile.toOrder(OrderProfile.fromRankings([[["A"], 1.5]]))).toThrow();
+    });
+});
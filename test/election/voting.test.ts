@@ -0,0 +1,172 @@
+import { describe, expect, it } from "vitest";
+import {
+    approvalProfileVote,
+    approvalVote,
+    balancedCardinalVote,
+    cardinalVote,
+    compromiseSingleVote,
+    minMaxCardinalVote,
+    orderingVote,
+    singleVote,
+    strategicApprovalVote,
+    strategicOrderingVote,
+    withTurnout,
+} from "../../src/election/voting";
+import { tallySingleToSimple } from "../../src/election/tallying";
+import { cardinalVote as cardinalBallot } from "../../src/election/voting-to-ballot";
+
+// the voters and the candidates are positions on a line
+const disagree = (voter: number, candidate: number) => Math.abs(voter - candidate);
+const voters = [1, 6, 9];
+const candidates = [0, 4, 10];
+
+describe("orderingVote", () => {
+    it("ranks all the candidates by default", () => {
+        expect(orderingVote({ disagree })(voters, candidates)).toEqual([[0, 4, 10], [4, 10, 0], [10, 4, 0]]);
+    });
+
+    it("ranks at most the given number of candidates", () => {
+        expect(orderingVote({ disagree, maxRanks: 2 })(voters, candidates)).toEqual([[0, 4], [4, 10], [10, 4]]);
+    });
+
+    it("stops ranking past the disagreement cutoff", () => {
+        expect(orderingVote({ disagree, maxDisagreement: 4 })(voters, candidates)).toEqual([[0, 4], [4, 10], [10]]);
+    });
+
+    it("only ranks the approved candidates", () => {
+        expect(orderingVote({ disagree, approvedOnly: true })([6], candidates)).toEqual([[4, 10]]);
+        expect(orderingVote({ disagree, approvedOnly: true, maxRanks: 1 })([6], candidates)).toEqual([[4]]);
+    });
+});
+
+describe("cardinalVote", () => {
+    const disagree = (voter: number, candidate: number) => Math.abs(voter - candidate) / 10;
+
+    it("grades by flooring the scaled agreement", () => {
+        // the agreements are .4, .8 and .6, scaled to 1.2, 2.4 and 1.8
+        expect(Object.fromEntries(cardinalBallot({ nScores: 3, disagree })(6, candidates))).toEqual({ 0: 1, 4: 2, 10: 1 });
+        expect(Object.fromEntries(cardinalVote({ nGrades: 3, disagree })(voters, candidates)))
+            .toEqual({ 0: [1, 1, 1], 4: [0, 1, 2], 10: [1, 1, 1] });
+    });
+
+    it("gives the maximum grade to a perfect agreement", () => {
+        expect(Object.fromEntries(cardinalBallot({ nScores: 3, disagree })(4, candidates))).toEqual({ 0: 1, 4: 2, 10: 1 });
+    });
+});
+
+describe("withTurnout", () => {
+    // the best candidate of each voter is at a distance of 1, 1.5, 1, 1 and 10
+    const voters = [1, 2.5, 5, 9, 20];
+    const voting = singleVote<number, number>({ disagree });
+
+    it("makes every voter cast a valid ballot by default", () => {
+        const tally = withTurnout({ voting, disagree })(voters, candidates);
+        expect(Object.fromEntries(tally.pos)).toEqual({ 0: 1, 4: 2, 10: 2 });
+        expect(tally.turnout).toMatchObject({ registered: 5, validBallots: 5, ballotsCast: 5, abstentions: 0, rate: 1 });
+    });
+
+    it("makes the voters too far from every candidate abstain", () => {
+        const tally = withTurnout({ voting, disagree, abstentionThreshold: 5 })(voters, candidates);
+        expect(Object.fromEntries(tally.pos)).toEqual({ 0: 1, 4: 2, 10: 1 });
+        expect(tally.turnout).toMatchObject({ registered: 5, validBallots: 4, abstentions: 1, rate: .8 });
+    });
+
+    it("records the blank and null ballots", () => {
+        const blank = withTurnout({ voting, disagree, abstentionThreshold: 5, blankThreshold: 1.2 })(voters, candidates);
+        expect(Object.fromEntries(blank.pos)).toEqual({ 0: 1, 4: 1, 10: 1 });
+        expect(blank.turnout).toMatchObject({ validBallots: 3, blankBallots: 1, ballotsCast: 4, abstentions: 1 });
+
+        const spoiled = withTurnout({ voting, disagree, nullProbability: 1 })(voters, candidates);
+        expect(spoiled.size).toBe(0);
+        expect(spoiled.turnout).toMatchObject({ validBallots: 0, nullBallots: 5, ballotsCast: 5 });
+    });
+
+    it("is reproducible with a seeded abstention probability", () => {
+        const turnout = withTurnout({ voting, disagree, abstentionProbability: d => d / 10, randomSeed: 3 });
+        const tally = turnout(voters, candidates);
+        expect(tally.turnout.abstentions).toBeGreaterThanOrEqual(1);
+        expect(turnout(voters, candidates)).toEqual(tally);
+    });
+
+    it("computes the shares of the votes", () => {
+        const { turnout } = withTurnout({ voting, disagree, abstentionThreshold: 5, blankThreshold: 1.2 })(voters, candidates);
+        expect(turnout.ofValidBallots(1)).toBeCloseTo(1 / 3);
+        expect(turnout.ofBallotsCast(1)).toBeCloseTo(1 / 4);
+        expect(turnout.ofRegistered(1)).toBeCloseTo(1 / 5);
+    });
+});
+
+describe("strategic voting", () => {
+    // 0 and 10 are the front-runners, 20 is expected to get no votes
+    const poll = new Map([[0, 45], [10, 40], [5, 15]]);
+    const voters = [1, 4, 6, 9];
+    const candidates = [0, 5, 10, 20];
+
+    it("compromises on the lesser evil among the viable candidates", () => {
+        expect(Object.fromEntries(compromiseSingleVote({ disagree, poll })(voters, candidates).pos)).toEqual({ 0: 2, 10: 2 });
+        expect(Object.fromEntries(compromiseSingleVote({ disagree, poll, nViable: 3 })(voters, candidates).pos))
+            .toEqual({ 0: 1, 5: 2, 10: 1 });
+    });
+
+    it("compromises and buries in ranked ballots", () => {
+        expect(strategicOrderingVote({ disagree, poll })(voters, candidates))
+            .toEqual([[0, 5, 20, 10], [0, 5, 20, 10], [10, 5, 20, 0], [10, 5, 20, 0]]);
+        expect(strategicOrderingVote({ disagree, poll, compromise: false })(voters, candidates))
+            .toEqual([[0, 5, 20, 10], [5, 0, 20, 10], [5, 10, 20, 0], [10, 5, 20, 0]]);
+        expect(strategicOrderingVote({ disagree, poll, burial: false })(voters, candidates))
+            .toEqual([[0, 5, 10, 20], [0, 5, 10, 20], [10, 5, 0, 20], [10, 5, 0, 20]]);
+    });
+
+    it("sets the approval threshold at the front-runner or at the runner-up", () => {
+        expect(Object.fromEntries(strategicApprovalVote({ disagree, poll })(voters, candidates).pos))
+            .toEqual({ 0: 2, 5: 4, 10: 2 });
+    });
+
+    it("min-maxes the score ballots", () => {
+        const scores = minMaxCardinalVote({ nGrades: 3, disagree, poll })(voters, candidates);
+        expect(Object.fromEntries(scores)).toEqual({ 0: [2, 0, 2], 5: [0, 0, 4], 10: [2, 0, 2], 20: [4, 0, 0] });
+    });
+
+    it("makes only a share of the voters strategic", () => {
+        expect(compromiseSingleVote({ disagree, poll, strategicShare: 0 })(voters, candidates))
+            .toEqual(singleVote<number, number>({ disagree })(voters, candidates));
+        const mixed = compromiseSingleVote({ disagree, poll, strategicShare: .5, randomSeed: 4 });
+        expect(mixed(voters, candidates)).toEqual(mixed(voters, candidates));
+    });
+});
+
+describe("weighted voters", () => {
+    const weight = (voter: number) => voter / 2;
+    const poll = new Map([[0, 45], [10, 40], [4, 15]]);
+
+    it("counts each voter as their weight", () => {
+        expect(Object.fromEntries(singleVote({ disagree, weight })(voters, candidates).pos)).toEqual({ 0: .5, 4: 3, 10: 4.5 });
+        expect(Object.fromEntries(approvalVote({ disagree, weight })(voters, candidates).pos)).toEqual({ 0: .5, 4: 8, 10: 7.5 });
+        expect(approvalProfileVote({ disagree, weight })(voters, candidates)).toEqual([[new Set([0, 4]), .5], [new Set([4, 10]), 7.5]]);
+        const scores = balancedCardinalVote({ nGrades: 3, disagree: (v, c) => disagree(v, c) / 10, weight })(voters, candidates);
+        expect(Object.fromEntries(scores)).toEqual({ 0: [7.5, 0, .5], 4: [0, 4.5, 3.5], 10: [.5, 3, 4.5] });
+    });
+
+    it("weighs the voters missing from a map as 1", () => {
+        const weight = new Map([[6, 2.5]]);
+        expect(Object.fromEntries(singleVote({ disagree, weight })(voters, candidates).pos)).toEqual({ 0: 1, 4: 2.5, 10: 1 });
+    });
+
+    it("records the weights of the ranked ballots", () => {
+        const order = orderingVote({ disagree, weight })(voters, candidates);
+        expect([...order]).toEqual([[0, 4, 10], [4, 10, 0], [10, 4, 0]]);
+        expect(order.weights).toEqual([.5, 3, 4.5]);
+    });
+
+    it("weighs the strategic voters", () => {
+        expect(Object.fromEntries(compromiseSingleVote({ disagree, poll, weight })(voters, candidates).pos)).toEqual({ 0: .5, 10: 7.5 });
+        expect(strategicOrderingVote({ disagree, poll, weight })(voters, candidates).weights).toEqual([.5, 3, 4.5]);
+        expect(Object.fromEntries(strategicApprovalVote({ disagree, poll, weight })(voters, candidates).pos)).toEqual({ 0: .5, 4: 8, 10: 7.5 });
+        expect(Object.fromEntries(minMaxCardinalVote({ nGrades: 2, disagree, poll, weight })(voters, candidates)))
+            .toEqual({ 0: [7.5, .5], 4: [0, 8], 10: [.5, 7.5] });
+    });
+
+    it("requires one weight per ballot", () => {
+        expect(() => tallySingleToSimple(["A", "B"], { weights: [1] })).toThrow();
+    });
+});